@@ -120,20 +120,46 @@ exports.Prisma.TransactionIsolationLevel = makeStrictEnum({
   Serializable: 'Serializable'
 });
 
+exports.Prisma.AccountScalarFieldEnum = {
+  id: 'id',
+  googleId: 'googleId',
+  email: 'email',
+  historyId: 'historyId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  watchTopicName: 'watchTopicName',
+  watchLabelIds: 'watchLabelIds',
+  watchLabelFilterAction: 'watchLabelFilterAction',
+  watchExpiration: 'watchExpiration',
+  resyncHistoryId: 'resyncHistoryId',
+  resyncPageToken: 'resyncPageToken',
+  resyncStartedAt: 'resyncStartedAt',
+  syncLockedBy: 'syncLockedBy',
+  syncLockedUntil: 'syncLockedUntil',
+  labelsSyncedAt: 'labelsSyncedAt',
+  skipSpamTrashDrafts: 'skipSpamTrashDrafts',
+  syncMaxMessages: 'syncMaxMessages',
+  syncAfter: 'syncAfter',
+  syncQuery: 'syncQuery',
+  syncLabelAllowlist: 'syncLabelAllowlist',
+  syncLabelDenylist: 'syncLabelDenylist',
+  processAttachments: 'processAttachments',
+  storageProvider: 'storageProvider'
+};
+
 exports.Prisma.TokenScalarFieldEnum = {
   id: 'id',
-  userId: 'userId',
+  accountId: 'accountId',
   accessToken: 'accessToken',
   refreshToken: 'refreshToken',
   expiryDate: 'expiryDate',
-  historyId: 'historyId',
   createdAt: 'createdAt'
 };
 
 exports.Prisma.EmailScalarFieldEnum = {
   id: 'id',
   messageId: 'messageId',
-  userId: 'userId',
+  accountId: 'accountId',
   subject: 'subject',
   bodyHtml: 'bodyHtml',
   bodyText: 'bodyText',
@@ -143,23 +169,152 @@ exports.Prisma.EmailScalarFieldEnum = {
   bcc: 'bcc',
   date: 'date',
   threadId: 'threadId',
+  rfcMessageId: 'rfcMessageId',
+  inReplyTo: 'inReplyTo',
+  references: 'references',
+  replyTo: 'replyTo',
+  listId: 'listId',
+  listUnsubscribe: 'listUnsubscribe',
+  autoSubmitted: 'autoSubmitted',
+  category: 'category',
+  headers: 'headers',
+  labelIds: 'labelIds',
+  deletedAt: 'deletedAt',
   createdAt: 'createdAt'
 };
 
 exports.Prisma.AttachmentScalarFieldEnum = {
   id: 'id',
   emailId: 'emailId',
+  accountId: 'accountId',
   fileName: 'fileName',
   mimeType: 'mimeType',
+  size: 'size',
+  sha256: 'sha256',
+  createdAt: 'createdAt',
+  storageProvider: 'storageProvider',
+  storageKey: 'storageKey',
   driveLink: 'driveLink',
+  sharingUpdatedAt: 'sharingUpdatedAt',
+  status: 'status',
+  partId: 'partId',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  nextAttemptAt: 'nextAttemptAt'
+};
+
+exports.Prisma.SyncJobScalarFieldEnum = {
+  id: 'id',
+  accountId: 'accountId',
+  type: 'type',
+  status: 'status',
+  dedupeKey: 'dedupeKey',
+  attempts: 'attempts',
+  maxAttempts: 'maxAttempts',
+  runAt: 'runAt',
+  lockedBy: 'lockedBy',
+  lockedAt: 'lockedAt',
+  lastError: 'lastError',
+  completedAt: 'completedAt',
+  runId: 'runId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.SyncRunScalarFieldEnum = {
+  id: 'id',
+  accountId: 'accountId',
+  type: 'type',
+  status: 'status',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt',
+  messagesSeen: 'messagesSeen',
+  messagesStored: 'messagesStored',
+  messagesSkipped: 'messagesSkipped',
+  messagesFailed: 'messagesFailed',
+  attachmentsUploaded: 'attachmentsUploaded',
+  lastError: 'lastError',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.FailedMessageScalarFieldEnum = {
+  id: 'id',
+  accountId: 'accountId',
+  messageId: 'messageId',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.SchedulerLeaseScalarFieldEnum = {
+  name: 'name',
+  holder: 'holder',
+  acquiredAt: 'acquiredAt',
+  renewedAt: 'renewedAt',
+  expiresAt: 'expiresAt'
+};
+
+exports.Prisma.CompletedBackfillScalarFieldEnum = {
+  name: 'name',
+  completedAt: 'completedAt'
+};
+
+exports.Prisma.InlineResourceScalarFieldEnum = {
+  id: 'id',
+  emailId: 'emailId',
+  contentId: 'contentId',
+  fileName: 'fileName',
+  mimeType: 'mimeType',
+  size: 'size',
+  data: 'data',
   createdAt: 'createdAt'
 };
 
+exports.Prisma.ContactScalarFieldEnum = {
+  id: 'id',
+  accountId: 'accountId',
+  address: 'address',
+  name: 'name',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.EmailParticipantScalarFieldEnum = {
+  id: 'id',
+  emailId: 'emailId',
+  contactId: 'contactId',
+  role: 'role',
+  name: 'name'
+};
+
+exports.Prisma.LabelScalarFieldEnum = {
+  id: 'id',
+  accountId: 'accountId',
+  gmailId: 'gmailId',
+  name: 'name',
+  type: 'type',
+  textColor: 'textColor',
+  backgroundColor: 'backgroundColor',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.EmailLabelScalarFieldEnum = {
+  emailId: 'emailId',
+  labelId: 'labelId'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
 };
 
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -170,11 +325,85 @@ exports.Prisma.NullsOrder = {
   last: 'last'
 };
 
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
+exports.StorageBackend = exports.$Enums.StorageBackend = {
+  drive: 'drive',
+  local: 'local',
+  s3: 's3'
+};
+
+exports.EmailCategory = exports.$Enums.EmailCategory = {
+  personal: 'personal',
+  mailing_list: 'mailing_list',
+  automated: 'automated',
+  bounce: 'bounce'
+};
+
+exports.AttachmentStatus = exports.$Enums.AttachmentStatus = {
+  pending: 'pending',
+  uploaded: 'uploaded',
+  failed: 'failed',
+  skipped: 'skipped'
+};
+
+exports.SyncJobType = exports.$Enums.SyncJobType = {
+  initial: 'initial',
+  incremental: 'incremental',
+  push: 'push'
+};
+
+exports.SyncJobStatus = exports.$Enums.SyncJobStatus = {
+  pending: 'pending',
+  running: 'running',
+  completed: 'completed',
+  dead: 'dead'
+};
+
+exports.SyncRunType = exports.$Enums.SyncRunType = {
+  initial: 'initial',
+  incremental: 'incremental',
+  push: 'push',
+  resync: 'resync'
+};
+
+exports.SyncRunStatus = exports.$Enums.SyncRunStatus = {
+  queued: 'queued',
+  running: 'running',
+  completed: 'completed',
+  failed: 'failed'
+};
+
+exports.ParticipantRole = exports.$Enums.ParticipantRole = {
+  from: 'from',
+  to: 'to',
+  cc: 'cc',
+  bcc: 'bcc'
+};
+
+exports.LabelType = exports.$Enums.LabelType = {
+  system: 'system',
+  user: 'user'
+};
 
 exports.Prisma.ModelName = {
+  Account: 'Account',
   Token: 'Token',
   Email: 'Email',
-  Attachment: 'Attachment'
+  Attachment: 'Attachment',
+  SyncJob: 'SyncJob',
+  SyncRun: 'SyncRun',
+  FailedMessage: 'FailedMessage',
+  SchedulerLease: 'SchedulerLease',
+  CompletedBackfill: 'CompletedBackfill',
+  InlineResource: 'InlineResource',
+  Contact: 'Contact',
+  EmailParticipant: 'EmailParticipant',
+  Label: 'Label',
+  EmailLabel: 'EmailLabel'
 };
 
 /**
@@ -0,0 +1,7 @@
+-- Full-text index for /gmail/search. Prisma cannot declare expression indexes, so this runs after
+-- `prisma db push` (npm run db:push). The expression must match SEARCH_DOCUMENT in email-search.service.ts.
+CREATE INDEX CONCURRENTLY IF NOT EXISTS "Email_search_idx" ON "Email" USING GIN ((
+  setweight(to_tsvector('english', coalesce("subject", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("sender", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("bodyText", '')), 'C')
+));
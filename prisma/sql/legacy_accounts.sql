@@ -0,0 +1,66 @@
+-- Moves databases from before accounts existed onto the Account model. Runs before `prisma db push`
+-- (npm run db:push), so the columns it drops still hold their data, and does nothing once Token.userId is gone.
+-- The Google identity of a token is not known here: each account gets a placeholder that
+-- LegacyAccountService replaces on startup. The prefix must match LEGACY_ACCOUNT_PREFIX there.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'Token' AND column_name = 'userId'
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM "Token") AND EXISTS (SELECT 1 FROM "Email") THEN
+    RAISE EXCEPTION 'Stored emails cannot be assigned to an account: no OAuth token is left';
+  END IF;
+
+  CREATE TABLE IF NOT EXISTS "Account" (
+    "id" TEXT NOT NULL,
+    "googleId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "historyId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "Account_pkey" PRIMARY KEY ("id")
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS "Account_googleId_key" ON "Account"("googleId");
+  CREATE UNIQUE INDEX IF NOT EXISTS "Account_email_key" ON "Account"("email");
+
+  ALTER TABLE "Token" ADD COLUMN IF NOT EXISTS "accountId" TEXT;
+  ALTER TABLE "Email" ADD COLUMN IF NOT EXISTS "accountId" TEXT;
+  ALTER TABLE "Attachment" ADD COLUMN IF NOT EXISTS "accountId" TEXT;
+
+  INSERT INTO "Account" ("id", "googleId", "email", "historyId", "createdAt", "updatedAt")
+  SELECT "id", 'legacy:' || "id", 'legacy:' || "id", "historyId", "createdAt", CURRENT_TIMESTAMP
+  FROM "Token"
+  WHERE "accountId" IS NULL;
+
+  UPDATE "Token" SET "accountId" = "id" WHERE "accountId" IS NULL;
+
+  UPDATE "Email" e
+  SET "accountId" = t."accountId"
+  FROM "Token" t
+  WHERE e."accountId" IS NULL AND e."userId" = t."userId";
+
+  -- Earlier versions also filed attachments of emails without a user under the first token
+  UPDATE "Email"
+  SET "accountId" = (SELECT "accountId" FROM "Token" ORDER BY "createdAt", "id" LIMIT 1)
+  WHERE "accountId" IS NULL;
+
+  UPDATE "Attachment" a
+  SET "accountId" = e."accountId"
+  FROM "Email" e
+  WHERE a."emailId" = e."id" AND a."accountId" IS NULL;
+
+  -- Done here rather than by db push, which asks to accept data loss before adding constraints to filled tables
+  ALTER TABLE "Token" ALTER COLUMN "accountId" SET NOT NULL;
+  ALTER TABLE "Email" ALTER COLUMN "accountId" SET NOT NULL;
+  ALTER TABLE "Attachment" ALTER COLUMN "accountId" SET NOT NULL;
+  CREATE UNIQUE INDEX IF NOT EXISTS "Token_accountId_key" ON "Token"("accountId");
+  DROP INDEX IF EXISTS "Email_messageId_key";
+  CREATE UNIQUE INDEX IF NOT EXISTS "Email_accountId_messageId_key" ON "Email"("accountId", "messageId");
+
+  ALTER TABLE "Token" DROP COLUMN "userId", DROP COLUMN "historyId";
+  ALTER TABLE "Email" DROP COLUMN "userId";
+END $$;
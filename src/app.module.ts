@@ -1,18 +1,41 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module'; 
-import { PrismaService } from './prisma/prisma.service';
+import { PrismaModule } from './prisma/prisma.module';
 import { ScheduleModule } from '@nestjs/schedule';
-import { GmailService } from './gmail/gmail.service';
-import { GoogleAuthService } from './auth/google-auth.service';
 import { WebhookController } from './gmail/webhook.controller';
-import { DriveModule } from './drive/drive.module';
+import { StorageModule } from './storage/storage.module';
 import { GmailController } from './gmail/gmail.controller';
+import { EmailSearchService } from './gmail/email-search.service';
+import { EmailRenderService } from './gmail/email-render.service';
+import { ImageProxyService } from './gmail/image-proxy.service';
+import { AttachmentDownloadService } from './gmail/attachment-download.service';
+import { AttachmentRetryService } from './gmail/attachment-retry.service';
+import { SyncModule } from './sync/sync.module';
+import { SyncController } from './sync/sync.controller';
+import { ContactsModule } from './contacts/contacts.module';
+import { AllExceptionsFilter } from './common/all-exceptions.filter';
+import { CorrelationIdMiddleware } from './common/correlation-id.middleware';
+import { createValidationPipe } from './common/validation';
 
 @Module({
-  imports: [ScheduleModule.forRoot(), AuthModule, DriveModule],
-  controllers: [AppController, WebhookController, GmailController],
-  providers: [AppService, PrismaService, GmailService, GoogleAuthService],
+  imports: [ScheduleModule.forRoot(), PrismaModule, AuthModule, StorageModule, SyncModule, ContactsModule],
+  controllers: [AppController, WebhookController, GmailController, SyncController],
+  providers: [
+    AppService,
+    EmailSearchService,
+    EmailRenderService,
+    ImageProxyService,
+    AttachmentDownloadService,
+    AttachmentRetryService,
+    { provide: APP_PIPE, useFactory: createValidationPipe },
+    { provide: APP_FILTER, useClass: AllExceptionsFilter },
+  ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(CorrelationIdMiddleware).forRoutes('{*splat}');
+  }
+}
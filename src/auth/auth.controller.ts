@@ -1,15 +1,39 @@
-import { Controller, Get, Query, Res, Post } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Res,
+} from '@nestjs/common';
 import { Response } from 'express';
 import { GoogleAuthService } from './google-auth.service';
 import { GmailService } from '../gmail/gmail.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { UpdateWatchSettingsDto } from './dto/update-watch-settings.dto';
+import { UpdateSyncSettingsDto } from './dto/update-sync-settings.dto';
+import { GoogleRedirectQueryDto } from './dto/google-redirect-query.dto';
+import { SyncQueueService } from '../sync/sync-queue.service';
+import { SyncJobType } from '../../generated/prisma';
 
 @Controller('auth')
 export class AuthController {
+  private readonly logger = new Logger(AuthController.name);
+
   constructor(
     private readonly googleAuthService: GoogleAuthService,
     private readonly gmailService: GmailService,
-    private readonly prisma: PrismaService
+    private readonly prisma: PrismaService,
+    private readonly syncQueue: SyncQueueService
   ) {}
 
   @Get('google')
@@ -19,67 +43,166 @@ export class AuthController {
   }
 
   @Get('google/redirect')
-  async googleAuthRedirect(@Query('code') code: string, @Res() res: Response) {
-    try {
-      const tokens = await this.googleAuthService.getTokensFromCode(code);
-      
-      await this.googleAuthService.storeTokens(tokens);
-      console.log('Tokens stored successfully:', tokens);
-      
-      return res.send('Authentication successful! Tokens have been stored. You can close this window.');
-    } catch (error) {
-      console.error('Error during Google authentication redirect:', error);
-      return res.status(500).send('An error occurred during authentication.');
-    }
+  async googleAuthRedirect(@Query() { code }: GoogleRedirectQueryDto) {
+    const tokens = await this.googleAuthService.getTokensFromCode(code);
+
+    const account = await this.googleAuthService.storeTokens(tokens);
+    this.logger.log(`Tokens stored successfully for account ${account.email}`);
+
+    return `Authentication successful! Tokens for ${account.email} have been stored. You can close this window.`;
   }
 
   @Post('refresh-tokens')
-  async refreshTokens(@Res() res: Response) {
-    try {
-      await this.googleAuthService.refreshAllExpiredTokens();
-      return res.json({ 
-        success: true, 
-        message: 'Token refresh process completed. Check logs for details.' 
-      });
-    } catch (error) {
-      console.error('Error during manual token refresh:', error);
-      return res.status(500).json({ 
-        success: false, 
-        message: 'Token refresh failed',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
+  @HttpCode(HttpStatus.OK)
+  async refreshTokens() {
+    await this.googleAuthService.refreshAllExpiredTokens();
+    return {
+      success: true,
+      message: 'Token refresh process completed. Check logs for details.',
+    };
   }
 
   @Post('initial-sync')
-  async triggerInitialSync(@Res() res: Response) {
-    try {
-      const tokens = await this.prisma.token.findMany();
-      
-      if (tokens.length === 0) {
-        return res.json({ 
-          success: false, 
-          message: 'No tokens found. Please authenticate first.' 
-        });
-      }
+  @HttpCode(HttpStatus.OK)
+  async triggerInitialSync() {
+    const accounts = await this.googleAuthService.getConnectedAccounts();
+
+    if (accounts.length === 0) {
+      throw new ConflictException('No connected accounts found. Please authenticate first.');
+    }
+
+    const jobs = await Promise.all(
+      accounts.map(async account => {
+        const job = await this.syncQueue.enqueue(account.id, SyncJobType.initial);
+        return { jobId: job.id, runId: job.runId, accountId: account.id, email: account.email, status: job.status };
+      })
+    );
+
+    return {
+      success: true,
+      message: `Initial sync queued for ${accounts.length} account(s). This will fetch up to each account's backfill limit (2000 messages by default) and set up push notifications.`,
+      jobs,
+    };
+  }
+
+  @Get('accounts')
+  async getAccounts() {
+    const accounts = await this.prisma.account.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: {
+        token: { select: { id: true } },
+        _count: {
+          select: { emails: true, attachments: true },
+        },
+      },
+    });
+
+    return {
+      accounts: accounts.map(({ token, watchExpiration, ...account }) => ({
+        ...account,
+        connected: token !== null,
+        watchExpiration: watchExpiration ? new Date(Number(watchExpiration)).toISOString() : null,
+      })),
+    };
+  }
+
+  @Patch('accounts/:id/watch')
+  async updateWatchSettings(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateWatchSettingsDto
+  ) {
+    const account = await this.googleAuthService.getConnectedAccount(id);
+    if (!account) {
+      throw new NotFoundException(`Connected account ${id} not found`);
+    }
 
-      for (const token of tokens) {
-        this.gmailService.fetchEmails(token, true).catch(error => {
-          console.error(`Initial sync failed for token ${token.id}:`, error);
-        });
+    const updated = await this.prisma.account.update({
+      where: { id },
+      data: {
+        ...(body.topicName !== undefined && { watchTopicName: body.topicName }),
+        ...(body.labelIds && { watchLabelIds: body.labelIds }),
+        ...(body.labelFilterAction && { watchLabelFilterAction: body.labelFilterAction }),
+      },
+    });
+
+    await this.gmailService.renewGmailWatch({ ...updated, token: account.token });
+
+    return {
+      success: true,
+      message: `Watch settings updated for ${account.email}`,
+    };
+  }
+
+  @Patch('accounts/:id/sync-settings')
+  async updateSyncSettings(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateSyncSettingsDto
+  ) {
+    const after = body.after === undefined ? undefined : body.after ? new Date(body.after) : null;
+
+    const account = await this.prisma.account.findUnique({ where: { id } });
+    if (!account) {
+      throw new NotFoundException(`Account ${id} not found`);
+    }
+
+    const labelAllowlist = body.labelAllowlist ?? account.syncLabelAllowlist;
+    const labelDenylist = body.labelDenylist ?? account.syncLabelDenylist;
+    const overlap = labelAllowlist.filter(label => labelDenylist.includes(label));
+    if (overlap.length > 0) {
+      throw new BadRequestException(`Labels cannot be both allowed and denied: ${overlap.join(', ')}`);
+    }
+
+    const updated = await this.prisma.account.update({
+      where: { id },
+      data: {
+        ...(body.skipSpamTrashDrafts !== undefined && { skipSpamTrashDrafts: body.skipSpamTrashDrafts }),
+        ...(body.maxMessages !== undefined && { syncMaxMessages: body.maxMessages }),
+        ...(after !== undefined && { syncAfter: after }),
+        ...(body.query !== undefined && { syncQuery: body.query?.trim() || null }),
+        ...(body.labelAllowlist && { syncLabelAllowlist: body.labelAllowlist }),
+        ...(body.labelDenylist && { syncLabelDenylist: body.labelDenylist }),
+        ...(body.processAttachments !== undefined && { processAttachments: body.processAttachments }),
+        ...(body.storageProvider !== undefined && { storageProvider: body.storageProvider }),
+      },
+    });
+
+    // The watch filters on the sync label lists, so a change there needs a fresh watch
+    if (body.labelAllowlist || body.labelDenylist) {
+      const connected = await this.googleAuthService.getConnectedAccount(id);
+      if (connected) {
+        await this.gmailService.renewGmailWatch({ ...updated, token: connected.token });
       }
+    }
 
-      return res.json({ 
-        success: true, 
-        message: `Initial sync started for ${tokens.length} token(s). This will fetch up to 2000 messages per account and set up push notifications.` 
-      });
-    } catch (error) {
-      console.error('Error during initial sync trigger:', error);
-      return res.status(500).json({ 
-        success: false, 
-        message: 'Initial sync trigger failed',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+    return {
+      success: true,
+      message: `Sync settings updated for ${account.email}`,
+      settings: {
+        skipSpamTrashDrafts: updated.skipSpamTrashDrafts,
+        maxMessages: updated.syncMaxMessages,
+        after: updated.syncAfter,
+        query: updated.syncQuery,
+        labelAllowlist: updated.syncLabelAllowlist,
+        labelDenylist: updated.syncLabelDenylist,
+        processAttachments: updated.processAttachments,
+        storageProvider: updated.storageProvider,
+      },
+    };
+  }
+
+  @Post('accounts/:id/disconnect')
+  async disconnectAccount(@Param('id', ParseUUIDPipe) id: string) {
+    const account = await this.googleAuthService.getConnectedAccount(id);
+    if (!account) {
+      throw new NotFoundException(`Connected account ${id} not found`);
     }
+
+    await this.gmailService.stopGmailWatch(account);
+    await this.googleAuthService.disconnectAccount(account);
+
+    return {
+      success: true,
+      message: `Account ${account.email} disconnected. Archived emails have been kept.`,
+    };
   }
 }
@@ -1,14 +1,29 @@
 import { Module } from "@nestjs/common";
 import { AuthController } from "./auth.controller";
 import { GoogleAuthService } from "./google-auth.service";
+import { LegacyAccountService } from "./legacy-account.service";
 import { PrismaModule } from "../prisma/prisma.module";
 import { GmailService } from "../gmail/gmail.service";
-import { DriveModule } from "../drive/drive.module";
+import { ThreadService } from "../gmail/thread.service";
+import { LabelService } from "../gmail/label.service";
+import { DriveSharingMigrationService } from "../gmail/drive-sharing-migration.service";
+import { ThreadBackfillService } from "../gmail/thread-backfill.service";
+import { StorageModule } from "../storage/storage.module";
+import { SyncModule } from "../sync/sync.module";
+import { ContactsModule } from "../contacts/contacts.module";
 
 @Module({
-  imports: [PrismaModule, DriveModule],
+  imports: [PrismaModule, StorageModule, SyncModule, ContactsModule],
   controllers: [AuthController],
-  providers: [GoogleAuthService, GmailService],
-  exports: [GoogleAuthService],
+  providers: [
+    GoogleAuthService,
+    LegacyAccountService,
+    GmailService,
+    ThreadService,
+    LabelService,
+    DriveSharingMigrationService,
+    ThreadBackfillService,
+  ],
+  exports: [GoogleAuthService, GmailService, ThreadService, LabelService],
 })
 export class AuthModule {}
@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class GoogleRedirectQueryDto {
+  @IsString()
+  @IsNotEmpty({ message: 'code is required' })
+  code: string;
+}
@@ -0,0 +1,50 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { StorageBackend } from '../../../generated/prisma';
+
+// Nullable settings use ValidateIf so an explicit null clears them while undefined leaves them alone
+export class UpdateSyncSettingsDto {
+  @IsOptional()
+  @IsBoolean()
+  skipSpamTrashDrafts?: boolean;
+
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsInt()
+  @Min(1)
+  maxMessages?: number | null;
+
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsISO8601()
+  after?: string | null;
+
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsString()
+  query?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  labelAllowlist?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  labelDenylist?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  processAttachments?: boolean;
+
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsEnum(StorageBackend)
+  storageProvider?: StorageBackend | null;
+}
@@ -0,0 +1,16 @@
+import { IsArray, IsIn, IsOptional, IsString } from 'class-validator';
+
+export class UpdateWatchSettingsDto {
+  @IsOptional()
+  @IsString()
+  topicName?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  labelIds?: string[];
+
+  @IsOptional()
+  @IsIn(['include', 'exclude'])
+  labelFilterAction?: 'include' | 'exclude';
+}
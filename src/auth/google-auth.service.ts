@@ -1,15 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { google, Auth } from 'googleapis';
 import { PrismaService } from '../prisma/prisma.service';
-import { Token } from '../../generated/prisma';
+import { Account, Token } from '../../generated/prisma';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { LeaderElectionService } from '../sync/leader-election.service';
+
+export type AccountWithToken = Account & { token: Token };
 
 @Injectable()
 export class GoogleAuthService {
   private readonly logger = new Logger(GoogleAuthService.name);
   private oauth2Client: Auth.OAuth2Client;
 
-  constructor(private prisma: PrismaService) {
+  constructor(
+    private prisma: PrismaService,
+    private leaderElection: LeaderElectionService
+  ) {
     this.oauth2Client = new google.auth.OAuth2(
       process.env.GOOGLE_CLIENT_ID,
       process.env.GOOGLE_CLIENT_SECRET,
@@ -17,14 +23,105 @@ export class GoogleAuthService {
     );
   }
   
-  async storeTokens(tokens: Auth.Credentials): Promise<void> {
-    await this.prisma.token.create({
-      data: {
+  async storeTokens(tokens: Auth.Credentials): Promise<AccountWithToken> {
+    const client = this.createClient();
+    client.setCredentials(tokens);
+    const identity = await this.getGoogleIdentity(client);
+
+    const account = await this.prisma.account.upsert({
+      where: { googleId: identity.googleId },
+      create: {
+        googleId: identity.googleId,
+        email: identity.email,
+      },
+      update: {
+        email: identity.email,
+      },
+    });
+
+    const token = await this.prisma.token.upsert({
+      where: { accountId: account.id },
+      create: {
+        accountId: account.id,
         accessToken: tokens.access_token!,
         refreshToken: tokens.refresh_token!,
         expiryDate: BigInt(tokens.expiry_date!),
       },
+      update: {
+        accessToken: tokens.access_token!,
+        expiryDate: BigInt(tokens.expiry_date!),
+        ...(tokens.refresh_token && { refreshToken: tokens.refresh_token }),
+      },
+    });
+
+    this.logger.log(`Stored tokens for account ${account.email}`);
+    return { ...account, token };
+  }
+
+  async getTokenIdentity(token: Token): Promise<{ googleId: string; email: string }> {
+    return this.getGoogleIdentity(await this.getAuthenticatedClient(token));
+  }
+
+  private async getGoogleIdentity(
+    client: Auth.OAuth2Client
+  ): Promise<{ googleId: string; email: string }> {
+    const oauth2 = google.oauth2({ version: 'v2', auth: client });
+    const { data } = await oauth2.userinfo.get();
+
+    if (!data.id || !data.email) {
+      throw new Error('Google account identity could not be resolved');
+    }
+
+    return { googleId: data.id, email: data.email.toLowerCase() };
+  }
+
+  async getConnectedAccounts(): Promise<AccountWithToken[]> {
+    const accounts = await this.prisma.account.findMany({
+      include: { token: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return accounts.filter(
+      (account): account is AccountWithToken => account.token !== null
+    );
+  }
+
+  async getConnectedAccount(id: string): Promise<AccountWithToken | null> {
+    const account = await this.prisma.account.findUnique({
+      where: { id },
+      include: { token: true },
+    });
+
+    if (!account?.token) {
+      return null;
+    }
+
+    return { ...account, token: account.token };
+  }
+
+  async disconnectAccount(account: AccountWithToken): Promise<void> {
+    try {
+      await this.oauth2Client.revokeToken(account.token.refreshToken);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Failed to revoke token for account ${account.email}: ${errorMessage}`);
+    }
+
+    await this.prisma.token.delete({ where: { id: account.token.id } });
+    this.logger.log(`Disconnected account ${account.email}`);
+  }
+
+  async getConnectedAccountByEmail(email: string): Promise<AccountWithToken | null> {
+    const account = await this.prisma.account.findUnique({
+      where: { email: email.toLowerCase() },
+      include: { token: true },
     });
+
+    if (!account?.token) {
+      return null;
+    }
+
+    return { ...account, token: account.token };
   }
 
   private isTokenExpired(token: Token): boolean {
@@ -37,13 +134,15 @@ export class GoogleAuthService {
 
   async refreshToken(token: Token): Promise<Token> {
     try {
-      this.logger.log(`Refreshing token for user: ${token.userId || 'unknown'}`);
+      this.logger.log(`Refreshing token for account: ${token.accountId}`);
       
-      this.oauth2Client.setCredentials({
+      // A client per refresh, so concurrent refreshes of different accounts cannot swap credentials
+      const client = this.createClient();
+      client.setCredentials({
         refresh_token: token.refreshToken,
       });
 
-      const { credentials } = await this.oauth2Client.refreshAccessToken();
+      const { credentials } = await client.refreshAccessToken();
       
       if (!credentials.access_token) {
         throw new Error('Failed to get new access token');
@@ -58,7 +157,7 @@ export class GoogleAuthService {
         },
       });
 
-      this.logger.log(`Token refreshed successfully for user: ${token.userId || 'unknown'}`);
+      this.logger.log(`Token refreshed successfully for account: ${token.accountId}`);
       return updatedToken;
       
     } catch (error) {
@@ -69,7 +168,7 @@ export class GoogleAuthService {
         this.logger.warn(`Token appears to be permanently invalid, marking for re-authentication`);
       }
       
-      throw new Error(`Token refresh failed: ${errorMessage}`);
+      throw new Error(`Token refresh failed: ${errorMessage}`, { cause: error });
     }
   }
 
@@ -85,11 +184,7 @@ export class GoogleAuthService {
   async getAuthenticatedClient(token: Token): Promise<Auth.OAuth2Client> {
     const validToken = await this.getValidToken(token);
     
-    const client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      process.env.GOOGLE_REDIRECT_URI
-    );
+    const client = this.createClient();
 
     client.setCredentials({
       access_token: validToken.accessToken,
@@ -153,9 +248,19 @@ export class GoogleAuthService {
     return this.oauth2Client;
   }
 
+  private createClient(): Auth.OAuth2Client {
+    return new google.auth.OAuth2(
+      process.env.GOOGLE_CLIENT_ID,
+      process.env.GOOGLE_CLIENT_SECRET,
+      process.env.GOOGLE_REDIRECT_URI
+    );
+  }
+
   @Cron(CronExpression.EVERY_HOUR)
   async scheduledTokenRefresh(): Promise<void> {
-    this.logger.log('Running scheduled token refresh check...');
-    await this.refreshAllExpiredTokens();
+    await this.leaderElection.runExclusive('token-refresh', 2 * 60 * 60 * 1000, async () => {
+      this.logger.log('Running scheduled token refresh check...');
+      await this.refreshAllExpiredTokens();
+    });
   }
 }
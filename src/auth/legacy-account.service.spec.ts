@@ -0,0 +1,69 @@
+import { LegacyAccountService } from './legacy-account.service';
+import { GoogleAuthService } from './google-auth.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+
+describe('LegacyAccountService', () => {
+  const prisma = {
+    account: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
+  };
+  const leaderElection = {
+    runExclusive: jest.fn((_name: string, _ttl: number, task: () => Promise<void>) => task()),
+  };
+  const googleAuthService = { getTokenIdentity: jest.fn() };
+
+  const legacyAccount = (id: string, emails: number, token: object | null = { id: `token-${id}` }) => ({
+    id,
+    googleId: `legacy:${id}`,
+    email: `legacy:${id}`,
+    token,
+    _count: { emails },
+  });
+
+  let service: LegacyAccountService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.account.findUnique.mockResolvedValue(null);
+    service = new LegacyAccountService(
+      prisma as unknown as PrismaService,
+      leaderElection as unknown as LeaderElectionService,
+      googleAuthService as unknown as GoogleAuthService
+    );
+  });
+
+  it('replaces the placeholder identity with the Google account of the token', async () => {
+    prisma.account.findMany.mockResolvedValue([legacyAccount('a1', 3)]);
+    googleAuthService.getTokenIdentity.mockResolvedValue({ googleId: 'g-1', email: 'user@example.com' });
+
+    await service.resolveLegacyAccounts();
+
+    expect(googleAuthService.getTokenIdentity).toHaveBeenCalledWith({ id: 'token-a1' });
+    expect(prisma.account.update).toHaveBeenCalledWith({
+      where: { id: 'a1' },
+      data: { googleId: 'g-1', email: 'user@example.com' },
+    });
+  });
+
+  it('removes empty duplicates of a connected mailbox and keeps ones that hold emails', async () => {
+    prisma.account.findMany.mockResolvedValue([legacyAccount('a2', 0), legacyAccount('a3', 5)]);
+    googleAuthService.getTokenIdentity.mockResolvedValue({ googleId: 'g-1', email: 'user@example.com' });
+    prisma.account.findUnique.mockResolvedValue({ id: 'a1' });
+
+    await service.resolveLegacyAccounts();
+
+    expect(prisma.account.delete.mock.calls).toEqual([[{ where: { id: 'a2' } }]]);
+    expect(prisma.account.update).not.toHaveBeenCalled();
+  });
+
+  it('leaves accounts whose identity cannot be resolved for the next start', async () => {
+    prisma.account.findMany.mockResolvedValue([legacyAccount('a1', 1), legacyAccount('a2', 1, null)]);
+    googleAuthService.getTokenIdentity.mockRejectedValue(new Error('invalid_grant'));
+
+    await expect(service.resolveLegacyAccounts()).resolves.toBeUndefined();
+
+    expect(googleAuthService.getTokenIdentity).toHaveBeenCalledTimes(1);
+    expect(prisma.account.update).not.toHaveBeenCalled();
+    expect(prisma.account.delete).not.toHaveBeenCalled();
+  });
+});
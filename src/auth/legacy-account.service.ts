@@ -0,0 +1,63 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { GoogleAuthService } from './google-auth.service';
+
+// Placeholder googleId and email of accounts created by prisma/sql/legacy_accounts.sql
+export const LEGACY_ACCOUNT_PREFIX = 'legacy:';
+
+// Replaces the placeholder identity of accounts migrated from tokens stored before accounts existed
+@Injectable()
+export class LegacyAccountService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(LegacyAccountService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leaderElection: LeaderElectionService,
+    private googleAuthService: GoogleAuthService
+  ) {}
+
+  onApplicationBootstrap() {
+    void this.resolveLegacyAccounts().catch((error) => {
+      this.logger.error('Legacy account migration failed:', error);
+    });
+  }
+
+  async resolveLegacyAccounts(): Promise<void> {
+    await this.leaderElection.runExclusive('legacy-account-migration', 10 * 60 * 1000, async () => {
+      const accounts = await this.prisma.account.findMany({
+        where: { googleId: { startsWith: LEGACY_ACCOUNT_PREFIX } },
+        include: { token: true, _count: { select: { emails: true } } },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      for (const account of accounts) {
+        if (!account.token) {
+          continue;
+        }
+
+        try {
+          const identity = await this.googleAuthService.getTokenIdentity(account.token);
+          const existing = await this.prisma.account.findUnique({ where: { googleId: identity.googleId } });
+
+          if (!existing) {
+            await this.prisma.account.update({ where: { id: account.id }, data: identity });
+            this.logger.log(`Resolved legacy account ${account.id} to ${identity.email}`);
+          } else if (account._count.emails === 0) {
+            // Earlier versions stored a new token on every sign-in, so one mailbox can have several
+            await this.prisma.account.delete({ where: { id: account.id } });
+            this.logger.log(`Removed legacy account ${account.id}, a duplicate of ${identity.email}`);
+          } else {
+            this.logger.warn(
+              `Legacy account ${account.id} holds ${account._count.emails} email(s) of ${identity.email}, which is connected as account ${existing.id}`
+            );
+          }
+        } catch (error) {
+          // Retried on the next start
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.warn(`Failed to resolve legacy account ${account.id}: ${errorMessage}`);
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,143 @@
+import { Body, Controller, Get, INestApplication, MiddlewareConsumer, Module, NestModule, NotFoundException, Post } from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { IsInt, Min } from 'class-validator';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { Prisma } from '../../generated/prisma';
+import { AllExceptionsFilter, ErrorResponse } from './all-exceptions.filter';
+import { CorrelationIdMiddleware } from './correlation-id.middleware';
+import { createValidationPipe } from './validation';
+
+class CreateThingDto {
+  @IsInt()
+  @Min(1)
+  size: number;
+}
+
+const googleError = (status: number, message: string, reason?: string) =>
+  Object.assign(new Error(message), {
+    name: 'GaxiosError',
+    config: {},
+    response: { status },
+    ...(reason && { errors: [{ reason }] }),
+  });
+
+@Controller('things')
+class ThingsController {
+  @Get('missing')
+  missing() {
+    throw new NotFoundException('Thing 1 not found');
+  }
+
+  @Get('duplicate')
+  duplicate() {
+    throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: 'test',
+    });
+  }
+
+  @Get('google-rate-limit')
+  googleRateLimit() {
+    throw googleError(403, 'User rate limit exceeded', 'userRateLimitExceeded');
+  }
+
+  @Get('google-wrapped')
+  googleWrapped() {
+    throw new Error('Token refresh failed: invalid_grant', {
+      cause: googleError(400, 'invalid_grant'),
+    });
+  }
+
+  @Get('crash')
+  crash() {
+    throw new Error('database password is hunter2');
+  }
+
+  @Post()
+  create(@Body() body: CreateThingDto) {
+    return body;
+  }
+}
+
+@Module({
+  controllers: [ThingsController],
+  providers: [
+    { provide: APP_PIPE, useFactory: createValidationPipe },
+    { provide: APP_FILTER, useClass: AllExceptionsFilter },
+  ],
+})
+class TestModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(CorrelationIdMiddleware).forRoutes('{*splat}');
+  }
+}
+
+describe('AllExceptionsFilter', () => {
+  let app: INestApplication<App>;
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({ imports: [TestModule] }).compile();
+    app = module.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('returns HTTP exceptions in the common error shape', async () => {
+    const response = await request(app.getHttpServer()).get('/things/missing').expect(404);
+    const body = response.body as ErrorResponse;
+
+    expect(body).toEqual({
+      statusCode: 404,
+      error: 'Not Found',
+      code: 'not_found',
+      message: 'Thing 1 not found',
+      correlationId: response.headers['x-correlation-id'],
+      path: '/things/missing',
+      timestamp: expect.any(String) as string,
+    });
+  });
+
+  it('echoes a caller-supplied correlation ID', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/things/missing')
+      .set('X-Correlation-Id', 'req-42')
+      .expect(404);
+
+    expect(response.headers['x-correlation-id']).toBe('req-42');
+    expect((response.body as ErrorResponse).correlationId).toBe('req-42');
+  });
+
+  it('lists every validation failure', async () => {
+    const response = await request(app.getHttpServer()).post('/things').send({ size: 0 }).expect(400);
+    const body = response.body as ErrorResponse;
+
+    expect(body.code).toBe('bad_request');
+    expect(body.message).toBe('size must not be less than 1');
+  });
+
+  it('maps unique constraint violations to 409', async () => {
+    const response = await request(app.getHttpServer()).get('/things/duplicate').expect(409);
+    expect((response.body as ErrorResponse).code).toBe('conflict');
+  });
+
+  it('translates Google API errors, including wrapped ones', async () => {
+    const rateLimited = await request(app.getHttpServer()).get('/things/google-rate-limit').expect(503);
+    expect((rateLimited.body as ErrorResponse).code).toBe('google_rate_limited');
+
+    const authFailed = await request(app.getHttpServer()).get('/things/google-wrapped').expect(502);
+    expect((authFailed.body as ErrorResponse).code).toBe('google_auth_failed');
+  });
+
+  it('hides the details of unexpected errors', async () => {
+    const response = await request(app.getHttpServer()).get('/things/crash').expect(500);
+    const body = response.body as ErrorResponse;
+
+    expect(body.code).toBe('internal_error');
+    expect(body.message).toBe('Internal server error');
+  });
+});
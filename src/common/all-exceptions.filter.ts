@@ -0,0 +1,99 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ConflictException,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Response } from 'express';
+import { Prisma } from '../../generated/prisma';
+import { CORRELATION_ID_HEADER, RequestWithCorrelationId } from './correlation-id.middleware';
+import { translateGoogleApiError } from './google-api-errors';
+
+export interface ErrorResponse {
+  statusCode: number;
+  error: string;
+  code: string;
+  message: string;
+  details?: string[];
+  correlationId: string;
+  path: string;
+  timestamp: string;
+}
+
+const toSnakeCase = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+
+export function toHttpException(exception: unknown): HttpException {
+  if (exception instanceof HttpException) {
+    return exception;
+  }
+
+  if (exception instanceof Prisma.PrismaClientKnownRequestError) {
+    if (exception.code === 'P2002') {
+      return new ConflictException({ code: 'conflict', message: 'A record with the same unique fields already exists' });
+    }
+    if (exception.code === 'P2025') {
+      return new NotFoundException({ code: 'not_found', message: 'Record not found' });
+    }
+  }
+
+  return (
+    translateGoogleApiError(exception) ??
+    new InternalServerErrorException({ code: 'internal_error', message: 'Internal server error' })
+  );
+}
+
+@Catch()
+export class AllExceptionsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(AllExceptionsFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const context = host.switchToHttp();
+    const req = context.getRequest<RequestWithCorrelationId>();
+    const res = context.getResponse<Response>();
+
+    const correlationId = req.correlationId ?? randomUUID();
+    const httpException = toHttpException(exception);
+    const statusCode = httpException.getStatus();
+    const body = httpException.getResponse();
+    const { message, code } = (typeof body === 'string' ? { message: body } : body) as {
+      message?: string | string[];
+      code?: string;
+    };
+    const error = HttpStatus[statusCode] ?? 'ERROR';
+
+    if (statusCode >= 500) {
+      this.logger.error(
+        `${req.method} ${req.originalUrl} failed with ${statusCode} [${correlationId}]`,
+        exception instanceof Error ? exception.stack : String(exception)
+      );
+    }
+
+    if (res.headersSent) {
+      return;
+    }
+
+    // ValidationPipe reports one message per failed constraint
+    const messages = Array.isArray(message) ? message : [message ?? httpException.message];
+    const response: ErrorResponse = {
+      statusCode,
+      error: error
+        .split('_')
+        .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+        .join(' '),
+      code: code ?? toSnakeCase(error),
+      message: messages.join('; '),
+      ...(messages.length > 1 && { details: messages }),
+      correlationId,
+      path: req.originalUrl,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.setHeader(CORRELATION_ID_HEADER, correlationId).status(statusCode).json(response);
+  }
+}
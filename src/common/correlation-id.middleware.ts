@@ -0,0 +1,20 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+const CORRELATION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export type RequestWithCorrelationId = Request & { correlationId?: string };
+
+@Injectable()
+export class CorrelationIdMiddleware implements NestMiddleware {
+  use(req: RequestWithCorrelationId, res: Response, next: NextFunction) {
+    // Reuse the caller's ID (or a proxy's X-Request-Id) so logs can be joined across services
+    const incoming = req.header(CORRELATION_ID_HEADER) ?? req.header('x-request-id');
+    req.correlationId = incoming && CORRELATION_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    res.setHeader(CORRELATION_ID_HEADER, req.correlationId);
+    next();
+  }
+}
@@ -0,0 +1,10 @@
+import { Transform } from 'class-transformer';
+
+// Query strings arrive as text; only the literal strings "true" and "false" become booleans
+export const ToBoolean = () =>
+  Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value
+  );
+
+export const Trim = () =>
+  Transform(({ value }: { value: unknown }) => (typeof value === 'string' ? value.trim() : value));
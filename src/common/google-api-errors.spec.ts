@@ -0,0 +1,84 @@
+import { getHttpStatus, isTransientError, translateGoogleApiError, withRetry } from './google-api-errors';
+
+const apiError = (status: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('google-api-errors', () => {
+  it('reads the HTTP status from Gaxios-style errors', () => {
+    expect(getHttpStatus(apiError(404))).toBe(404);
+    expect(getHttpStatus({ response: { status: 503 } })).toBe(503);
+    expect(getHttpStatus({ code: 'P2002' })).toBeUndefined();
+    expect(getHttpStatus(null)).toBeUndefined();
+  });
+
+  it('treats rate limits, server errors and network failures as transient', () => {
+    expect(isTransientError(apiError(429))).toBe(true);
+    expect(isTransientError(apiError(503))).toBe(true);
+    expect(isTransientError({ code: 'ECONNRESET' })).toBe(true);
+    expect(isTransientError(apiError(404))).toBe(false);
+    expect(isTransientError(apiError(400))).toBe(false);
+  });
+
+  it('retries 403s only when Gmail reports a short-term rate limit', () => {
+    const forbidden = (reason: string) => Object.assign(apiError(403), { errors: [{ reason }] });
+
+    expect(isTransientError(forbidden('rateLimitExceeded'))).toBe(true);
+    expect(isTransientError(forbidden('userRateLimitExceeded'))).toBe(true);
+    expect(isTransientError(forbidden('quotaExceeded'))).toBe(false);
+    expect(isTransientError(forbidden('insufficientPermissions'))).toBe(false);
+    expect(isTransientError(apiError(403))).toBe(false);
+  });
+
+  it('retries transient failures until the call succeeds', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(apiError(429))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry(operation, { baseDelayMs: 1 })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const operation = jest.fn().mockRejectedValue(apiError(404));
+
+    await expect(withRetry(operation, { baseDelayMs: 1 })).rejects.toThrow('HTTP 404');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const operation = jest.fn().mockRejectedValue(apiError(500));
+
+    await expect(withRetry(operation, { retries: 2, baseDelayMs: 1 })).rejects.toThrow('HTTP 500');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  describe('translateGoogleApiError', () => {
+    const gaxiosError = (status?: number, message = `HTTP ${status}`) =>
+      Object.assign(new Error(message), { name: 'GaxiosError', config: {}, ...(status && { response: { status } }) });
+
+    it.each([
+      [401, 502, 'google_auth_failed'],
+      [403, 502, 'google_permission_denied'],
+      [404, 404, 'google_not_found'],
+      [429, 503, 'google_rate_limited'],
+      [400, 502, 'google_bad_request'],
+      [500, 502, 'google_unavailable'],
+    ])('maps Google HTTP %i to %i %s', (status, expectedStatus, code) => {
+      const translated = translateGoogleApiError(gaxiosError(status));
+
+      expect(translated?.getStatus()).toBe(expectedStatus);
+      expect(translated?.getResponse()).toMatchObject({ code });
+    });
+
+    it('maps network failures to a gateway timeout', () => {
+      expect(translateGoogleApiError(gaxiosError(undefined, 'socket hang up'))?.getStatus()).toBe(504);
+    });
+
+    it('ignores errors that did not come from a Google API call', () => {
+      expect(translateGoogleApiError(new Error('boom'))).toBeUndefined();
+      expect(translateGoogleApiError(apiError(404))).toBeUndefined();
+    });
+  });
+});
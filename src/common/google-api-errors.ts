@@ -0,0 +1,141 @@
+import {
+  BadGatewayException,
+  ConflictException,
+  GatewayTimeoutException,
+  HttpException,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+const TRANSIENT_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE'];
+// Gmail reports short-term rate limits as 403s; quotaExceeded is a daily quota and not worth retrying
+const RETRYABLE_RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+const RATE_LIMIT_REASONS = [...RETRYABLE_RATE_LIMIT_REASONS, 'quotaExceeded'];
+
+const getErrorReason = (error: unknown): string | undefined =>
+  (error as { errors?: { reason?: string }[] }).errors?.[0]?.reason;
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  logger?: Logger;
+  label?: string;
+}
+
+export function getHttpStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+
+  const { status, code, response } = error as {
+    status?: unknown;
+    code?: unknown;
+    response?: { status?: unknown };
+  };
+  const candidate = response?.status ?? status ?? code;
+  const parsed = Number(candidate);
+
+  return Number.isInteger(parsed) ? parsed : undefined;
+}
+
+export function isTransientError(error: unknown): boolean {
+  const status = getHttpStatus(error);
+  if (status === 403) {
+    const reason = getErrorReason(error);
+    return reason !== undefined && RETRYABLE_RATE_LIMIT_REASONS.includes(reason);
+  }
+  if (status !== undefined) {
+    return TRANSIENT_STATUSES.includes(status);
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && TRANSIENT_CODES.includes(code);
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, logger, label = 'Google API call' }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+
+      const delay = baseDelayMs * 2 ** attempt + Math.floor(Math.random() * baseDelayMs);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger?.warn(`${label} failed (${errorMessage}), retrying in ${delay}ms (${attempt + 1}/${retries})`);
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Gaxios errors carry the request config; anything else is not a Google API failure
+const isGoogleApiError = (error: unknown): error is Error =>
+  error instanceof Error && (error.name === 'GaxiosError' || 'config' in error);
+
+export function translateGoogleApiError(error: unknown): HttpException | undefined {
+  if (!isGoogleApiError(error)) {
+    // Services often rethrow Google failures with the original as the cause
+    return error instanceof Error && error.cause !== undefined
+      ? translateGoogleApiError(error.cause)
+      : undefined;
+  }
+
+  const status = getHttpStatus(error);
+  const reason = getErrorReason(error);
+  const detail = error.message;
+
+  if (status === undefined) {
+    return new GatewayTimeoutException({
+      code: 'google_unreachable',
+      message: `Google API could not be reached: ${detail}`,
+    });
+  }
+
+  if (status === 401 || detail.includes('invalid_grant')) {
+    return new BadGatewayException({
+      code: 'google_auth_failed',
+      message: 'Google rejected the stored credentials; the account needs to be re-authenticated',
+    });
+  }
+
+  if (status === 429 || (reason && RATE_LIMIT_REASONS.includes(reason))) {
+    return new ServiceUnavailableException({
+      code: 'google_rate_limited',
+      message: `Google API rate limit exceeded: ${detail}`,
+    });
+  }
+
+  if (status === 403) {
+    return new BadGatewayException({
+      code: 'google_permission_denied',
+      message: `Google API denied access: ${detail}`,
+    });
+  }
+
+  if (status === 404) {
+    return new NotFoundException({ code: 'google_not_found', message: `Not found in Google: ${detail}` });
+  }
+
+  if (status === 409) {
+    return new ConflictException({ code: 'google_conflict', message: `Google API conflict: ${detail}` });
+  }
+
+  if (status >= 400 && status < 500) {
+    return new BadGatewayException({
+      code: 'google_bad_request',
+      message: `Google API rejected the request: ${detail}`,
+    });
+  }
+
+  return new BadGatewayException({
+    code: 'google_unavailable',
+    message: `Google API failed with HTTP ${status}: ${detail}`,
+  });
+}
@@ -0,0 +1,3 @@
+import { hostname } from 'os';
+
+export const INSTANCE_ID = process.env.INSTANCE_ID || `${hostname()}:${process.pid}`;
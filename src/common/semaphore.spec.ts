@@ -0,0 +1,29 @@
+import { Semaphore } from './semaphore';
+
+describe('Semaphore', () => {
+  it('never runs more tasks than its limit at once', async () => {
+    const semaphore = new Semaphore(2);
+    let running = 0;
+    let peak = 0;
+
+    const task = async (value: number) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setImmediate(resolve));
+      running--;
+      return value;
+    };
+
+    await expect(Promise.all([1, 2, 3, 4, 5].map((value) => semaphore.run(() => task(value))))).resolves.toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(peak).toBe(2);
+  });
+
+  it('releases the slot when a task fails', async () => {
+    const semaphore = new Semaphore(1);
+
+    await expect(semaphore.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(semaphore.run(() => Promise.resolve('next'))).resolves.toBe('next');
+  });
+});
@@ -0,0 +1,7 @@
+import { ValidationPipe } from '@nestjs/common';
+
+export const createValidationPipe = () =>
+  new ValidationPipe({
+    transform: true,
+    whitelist: true,
+  });
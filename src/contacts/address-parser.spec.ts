@@ -0,0 +1,48 @@
+import { parseAddressList } from './address-parser';
+
+describe('parseAddressList', () => {
+  it('parses display names and bare addresses', () => {
+    expect(parseAddressList('Jane Doe <Jane.Doe@Example.com>, bob@example.com')).toEqual([
+      { name: 'Jane Doe', address: 'jane.doe@example.com' },
+      { name: null, address: 'bob@example.com' },
+    ]);
+  });
+
+  it('keeps commas and escapes inside quoted names', () => {
+    expect(parseAddressList('"Doe, Jane \\"JD\\"" <jane@example.com>')).toEqual([
+      { name: 'Doe, Jane "JD"', address: 'jane@example.com' },
+    ]);
+  });
+
+  it('decodes RFC 2047 encoded display names', () => {
+    expect(
+      parseAddressList('=?UTF-8?B?SsO8cmdlbg==?= =?ISO-8859-1?Q?M=FCller?= <jm@example.de>'),
+    ).toEqual([{ name: 'JürgenMüller', address: 'jm@example.de' }]);
+  });
+
+  it('uses comments as the name when there is no phrase', () => {
+    expect(parseAddressList('jdoe@example.com (John (Jack) Doe)')).toEqual([
+      { name: 'John (Jack) Doe', address: 'jdoe@example.com' },
+    ]);
+  });
+
+  it('expands groups and skips empty ones', () => {
+    expect(
+      parseAddressList('Undisclosed recipients:;, Team: a@example.com, b@example.com;'),
+    ).toEqual([
+      { name: null, address: 'a@example.com' },
+      { name: null, address: 'b@example.com' },
+    ]);
+  });
+
+  it('strips obsolete source routes and ignores invalid entries', () => {
+    expect(parseAddressList('<@relay.example.com:user@example.com>, not-an-address, ')).toEqual([
+      { name: null, address: 'user@example.com' },
+    ]);
+  });
+
+  it('returns nothing for empty headers', () => {
+    expect(parseAddressList('')).toEqual([]);
+    expect(parseAddressList(null)).toEqual([]);
+  });
+});
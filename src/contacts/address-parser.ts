@@ -0,0 +1,139 @@
+import { decodeEncodedWords } from '../mime/encoded-word';
+
+export interface ParsedAddress {
+  name: string | null;
+  address: string;
+}
+
+interface MailboxTokens {
+  words: string[];
+  comments: string[];
+  address: string | null;
+}
+
+const emptyMailbox = (): MailboxTokens => ({ words: [], comments: [], address: null });
+
+const readDelimited = (input: string, start: number, open: string, close: string): [string, number] => {
+  let depth = 0;
+  let value = '';
+
+  for (let i = start; i < input.length; i++) {
+    const char = input[i];
+
+    if (char === '\\' && i + 1 < input.length) {
+      value += input[++i];
+    } else if (char === open && open !== close && i > start) {
+      depth++;
+      value += char;
+    } else if (char === close && i > start) {
+      if (depth === 0) {
+        return [value, i];
+      }
+      depth--;
+      value += char;
+    } else if (i > start) {
+      value += char;
+    }
+  }
+
+  return [value, input.length];
+};
+
+const normalizeAddress = (value: string): string | null => {
+  // Drop obsolete source routes: <@relay.example.com:user@example.com>
+  const address = value.replace(/^(@[^,:]+,?)+:/, '').replace(/\s+/g, '').toLowerCase();
+  return /^[^@\s]+@[^@\s]+$/.test(address) ? address : null;
+};
+
+const toAddress = ({ words, comments, address }: MailboxTokens): ParsedAddress | null => {
+  let name: string;
+
+  if (address !== null) {
+    name = words.join(' ');
+  } else {
+    const index = words.findIndex((word) => word.includes('@'));
+    if (index === -1) {
+      return null;
+    }
+    address = words[index];
+    name = [...words.slice(0, index), ...words.slice(index + 1)].join(' ');
+  }
+
+  const normalized = normalizeAddress(address);
+  if (!normalized) {
+    return null;
+  }
+
+  const displayName = decodeEncodedWords(name || comments.join(' ')).replace(/\s+/g, ' ').trim();
+  return { name: displayName || null, address: normalized };
+};
+
+export function parseAddressList(header: string | null | undefined): ParsedAddress[] {
+  const input = header ?? '';
+  const addresses: ParsedAddress[] = [];
+  let mailbox = emptyMailbox();
+  let atom = '';
+
+  const endAtom = () => {
+    if (atom) {
+      mailbox.words.push(atom);
+      atom = '';
+    }
+  };
+  const endMailbox = () => {
+    endAtom();
+    const parsed = toAddress(mailbox);
+    if (parsed) {
+      addresses.push(parsed);
+    }
+    mailbox = emptyMailbox();
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    switch (char) {
+      case '"': {
+        endAtom();
+        const [quoted, end] = readDelimited(input, i, '"', '"');
+        mailbox.words.push(quoted);
+        i = end;
+        break;
+      }
+      case '(': {
+        endAtom();
+        const [comment, end] = readDelimited(input, i, '(', ')');
+        mailbox.comments.push(comment);
+        i = end;
+        break;
+      }
+      case '<': {
+        endAtom();
+        const [address, end] = readDelimited(input, i, '<', '>');
+        mailbox.address = address;
+        i = end;
+        break;
+      }
+      case ':':
+        // Group syntax: "Team: a@example.com, b@example.com;" - the group name is not a mailbox
+        endAtom();
+        mailbox = emptyMailbox();
+        break;
+      case ',':
+      case ';':
+        endMailbox();
+        break;
+      case ' ':
+      case '\t':
+      case '\r':
+      case '\n':
+        endAtom();
+        break;
+      default:
+        atom += char;
+    }
+  }
+
+  endMailbox();
+  return addresses;
+}
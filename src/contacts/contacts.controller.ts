@@ -0,0 +1,13 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ContactsService } from './contacts.service';
+import { ListContactsQueryDto } from './dto/list-contacts-query.dto';
+
+@Controller('contacts')
+export class ContactsController {
+  constructor(private readonly contactsService: ContactsService) {}
+
+  @Get()
+  async getContacts(@Query() { page = 1, limit = 20, q, accountId }: ListContactsQueryDto) {
+    return this.contactsService.listContacts(page, limit, q || undefined, accountId);
+  }
+}
@@ -0,0 +1,55 @@
+import { ContactsService } from './contacts.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+
+describe('ContactsService', () => {
+  const prisma = {
+    email: { findMany: jest.fn() },
+    contact: { upsert: jest.fn() },
+    emailParticipant: { createMany: jest.fn() },
+    completedBackfill: { findUnique: jest.fn(), create: jest.fn() },
+  };
+  const leaderElection = {
+    runExclusive: jest.fn((_name: string, _ttl: number, task: () => Promise<void>) => task()),
+  };
+
+  let service: ContactsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.contact.upsert.mockImplementation(({ create }: { create: { address: string } }) =>
+      Promise.resolve({ id: `contact-${create.address}` }),
+    );
+    service = new ContactsService(
+      prisma as unknown as PrismaService,
+      leaderElection as unknown as LeaderElectionService,
+    );
+  });
+
+  it('backfills participants once and records that it finished', async () => {
+    prisma.completedBackfill.findUnique.mockResolvedValue(null);
+    prisma.email.findMany
+      .mockResolvedValueOnce([
+        { id: 'e1', accountId: 'account-1', sender: 'alice@example.com', recipients: '', cc: null, bcc: null },
+      ])
+      .mockResolvedValueOnce([]);
+
+    await service.backfillParticipants();
+
+    expect(prisma.contact.upsert).toHaveBeenCalledWith({
+      where: { accountId_address: { accountId: 'account-1', address: 'alice@example.com' } },
+      create: { accountId: 'account-1', address: 'alice@example.com', name: null },
+      update: {},
+    });
+    expect(prisma.completedBackfill.create).toHaveBeenCalledWith({ data: { name: 'contact-participants' } });
+  });
+
+  it('skips the backfill after it has finished', async () => {
+    prisma.completedBackfill.findUnique.mockResolvedValue({ name: 'contact-participants' });
+
+    await service.backfillParticipants();
+
+    expect(prisma.email.findMany).not.toHaveBeenCalled();
+    expect(prisma.completedBackfill.create).not.toHaveBeenCalled();
+  });
+});
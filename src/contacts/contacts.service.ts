@@ -0,0 +1,175 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { Contact, ParticipantRole, Prisma } from '../../generated/prisma';
+import { parseAddressList, ParsedAddress } from './address-parser';
+
+const BACKFILL_BATCH_SIZE = 200;
+const BACKFILL_NAME = 'contact-participants';
+
+export interface ParticipantHeaders {
+  sender: string;
+  recipients: string;
+  cc: string | null;
+  bcc: string | null;
+}
+
+export interface ContactSummary {
+  id: string;
+  address: string;
+  name: string | null;
+  messageCount: number;
+  sentCount: number;
+  receivedCount: number;
+  lastContactedAt: Date | null;
+}
+
+@Injectable()
+export class ContactsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ContactsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leaderElection: LeaderElectionService
+  ) {}
+
+  onApplicationBootstrap() {
+    void this.backfillParticipants().catch((error) => {
+      this.logger.error('Contact backfill failed:', error);
+    });
+  }
+
+  async recordParticipants(accountId: string, emailId: string, headers: ParticipantHeaders): Promise<void> {
+    const roles: [ParticipantRole, string | null][] = [
+      [ParticipantRole.from, headers.sender],
+      [ParticipantRole.to, headers.recipients],
+      [ParticipantRole.cc, headers.cc],
+      [ParticipantRole.bcc, headers.bcc],
+    ];
+
+    const participants: Prisma.EmailParticipantCreateManyInput[] = [];
+
+    for (const [role, header] of roles) {
+      const seen = new Set<string>();
+
+      for (const parsed of parseAddressList(header)) {
+        if (seen.has(parsed.address)) {
+          continue;
+        }
+        seen.add(parsed.address);
+
+        const contact = await this.upsertContact(accountId, parsed);
+        participants.push({ emailId, contactId: contact.id, role, name: parsed.name });
+      }
+    }
+
+    if (participants.length > 0) {
+      await this.prisma.emailParticipant.createMany({ data: participants, skipDuplicates: true });
+    }
+  }
+
+  async listContacts(page: number, limit: number, search?: string, accountId?: string) {
+    const conditions: Prisma.Sql[] = [Prisma.sql`e."deletedAt" IS NULL`];
+
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(Prisma.sql`(c."address" ILIKE ${pattern} OR c."name" ILIKE ${pattern})`);
+    }
+
+    if (accountId) {
+      conditions.push(Prisma.sql`c."accountId" = ${accountId}`);
+    }
+
+    const where = Prisma.join(conditions, ' AND ');
+
+    const [contacts, [{ total }]] = await Promise.all([
+      this.prisma.$queryRaw<ContactSummary[]>`
+        SELECT
+          c."id",
+          c."address",
+          c."name",
+          count(DISTINCT p."emailId")::int AS "messageCount",
+          count(DISTINCT p."emailId") FILTER (WHERE p."role" = 'from')::int AS "sentCount",
+          count(DISTINCT p."emailId") FILTER (WHERE p."role" <> 'from')::int AS "receivedCount",
+          max(e."date") AS "lastContactedAt"
+        FROM "Contact" c
+        JOIN "EmailParticipant" p ON p."contactId" = c."id"
+        JOIN "Email" e ON e."id" = p."emailId"
+        WHERE ${where}
+        GROUP BY c."id"
+        ORDER BY "lastContactedAt" DESC, c."address" ASC
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+      `,
+      this.prisma.$queryRaw<[{ total: number }]>`
+        SELECT count(DISTINCT c."id")::int AS "total"
+        FROM "Contact" c
+        JOIN "EmailParticipant" p ON p."contactId" = c."id"
+        JOIN "Email" e ON e."id" = p."emailId"
+        WHERE ${where}
+      `,
+    ]);
+
+    return {
+      contacts,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async backfillParticipants(): Promise<void> {
+    await this.leaderElection.runExclusive('contact-backfill', 30 * 60 * 1000, async () => {
+      // Emails stored since contacts exist record their participants themselves
+      if (await this.prisma.completedBackfill.findUnique({ where: { name: BACKFILL_NAME } })) {
+        return;
+      }
+
+      let cursor: string | undefined;
+      let processed = 0;
+
+      for (;;) {
+        const emails = await this.prisma.email.findMany({
+          where: { participants: { none: {} }, ...(cursor && { id: { gt: cursor } }) },
+          orderBy: { id: 'asc' },
+          take: BACKFILL_BATCH_SIZE,
+          select: { id: true, accountId: true, sender: true, recipients: true, cc: true, bcc: true },
+        });
+
+        if (emails.length === 0) {
+          break;
+        }
+
+        for (const email of emails) {
+          await this.recordParticipants(email.accountId, email.id, email);
+        }
+
+        processed += emails.length;
+        cursor = emails[emails.length - 1].id;
+      }
+
+      await this.prisma.completedBackfill.create({ data: { name: BACKFILL_NAME } });
+
+      if (processed > 0) {
+        this.logger.log(`Backfilled participants for ${processed} email(s)`);
+      }
+    });
+  }
+
+  private async upsertContact(accountId: string, { address, name }: ParsedAddress): Promise<Contact> {
+    try {
+      return await this.prisma.contact.upsert({
+        where: { accountId_address: { accountId, address } },
+        create: { accountId, address, name },
+        update: name ? { name } : {},
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return this.prisma.contact.findUniqueOrThrow({ where: { accountId_address: { accountId, address } } });
+      }
+      throw error;
+    }
+  }
+}
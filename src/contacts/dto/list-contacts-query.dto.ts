@@ -0,0 +1,14 @@
+import { IsOptional, IsString, IsUUID } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { Trim } from '../../common/dto/query-transforms';
+
+export class ListContactsQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @Trim()
+  @IsString()
+  q?: string;
+
+  @IsOptional()
+  @IsUUID()
+  accountId?: string;
+}
@@ -0,0 +1,26 @@
+import { getSharingPermissions, parseSharingPolicy } from './drive-sharing';
+
+describe('drive sharing policy', () => {
+  it('keeps files private by default', () => {
+    const policy = parseSharingPolicy(undefined);
+
+    expect(policy).toEqual({ mode: 'private' });
+    expect(getSharingPermissions(policy)).toEqual([]);
+  });
+
+  it('shares with a domain or a list of users', () => {
+    expect(getSharingPermissions(parseSharingPolicy('domain', 'example.com'))).toEqual([
+      { role: 'reader', type: 'domain', domain: 'example.com' },
+    ]);
+    expect(getSharingPermissions(parseSharingPolicy('users', undefined, 'a@example.com, b@example.com,'))).toEqual([
+      { role: 'reader', type: 'user', emailAddress: 'a@example.com' },
+      { role: 'reader', type: 'user', emailAddress: 'b@example.com' },
+    ]);
+  });
+
+  it('rejects incomplete or unknown settings', () => {
+    expect(() => parseSharingPolicy('domain')).toThrow('DRIVE_SHARING_DOMAIN is required');
+    expect(() => parseSharingPolicy('users', undefined, ' , ')).toThrow('DRIVE_SHARING_USERS is required');
+    expect(() => parseSharingPolicy('anyone')).toThrow('Unknown DRIVE_SHARING mode "anyone"');
+  });
+});
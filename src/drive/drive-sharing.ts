@@ -0,0 +1,46 @@
+import { drive_v3 } from 'googleapis';
+
+export type DriveSharingPolicy =
+  | { mode: 'private' }
+  | { mode: 'domain'; domain: string }
+  | { mode: 'users'; emails: string[] };
+
+export function parseSharingPolicy(mode?: string, domain?: string, users?: string): DriveSharingPolicy {
+  switch (mode || 'private') {
+    case 'private':
+      return { mode: 'private' };
+
+    case 'domain':
+      if (!domain?.trim()) {
+        throw new Error('DRIVE_SHARING_DOMAIN is required when DRIVE_SHARING is "domain"');
+      }
+      return { mode: 'domain', domain: domain.trim() };
+
+    case 'users': {
+      const emails = (users || '')
+        .split(',')
+        .map((email) => email.trim())
+        .filter(Boolean);
+
+      if (emails.length === 0) {
+        throw new Error('DRIVE_SHARING_USERS is required when DRIVE_SHARING is "users"');
+      }
+      return { mode: 'users', emails };
+    }
+
+    default:
+      throw new Error(`Unknown DRIVE_SHARING mode "${mode}", expected private, domain or users`);
+  }
+}
+
+// Private files get no extra permissions: only the account that uploaded them can open them
+export function getSharingPermissions(policy: DriveSharingPolicy): drive_v3.Schema$Permission[] {
+  switch (policy.mode) {
+    case 'domain':
+      return [{ role: 'reader', type: 'domain', domain: policy.domain }];
+    case 'users':
+      return policy.emails.map((emailAddress) => ({ role: 'reader', type: 'user', emailAddress }));
+    default:
+      return [];
+  }
+}
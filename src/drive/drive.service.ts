@@ -1,6 +1,32 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { google, drive_v3, Auth } from 'googleapis';
+import { FileHandle, open } from 'fs/promises';
 import { Readable } from 'stream';
+import { isTransientError, withRetry } from '../common/google-api-errors';
+import { StorageBackend } from '../../generated/prisma';
+import {
+  AttachmentData,
+  StorageProvider,
+  StorageReadContext,
+  StorageUploadContext,
+  UploadResult,
+  failAll,
+  uploadEach,
+} from '../storage/storage-provider';
+import { DriveSharingPolicy, getSharingPermissions, parseSharingPolicy } from './drive-sharing';
+
+const DRIVE_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3/files';
+const UPLOAD_FIELDS = 'id,name,mimeType,size,webViewLink,webContentLink';
+// Resumable chunks must be a multiple of 256 KiB (only the last one may be shorter)
+const CHUNK_ALIGNMENT = 256 * 1024;
+const DEFAULT_CHUNK_BYTES = 8 * 1024 * 1024;
+const CHUNK_RETRIES = 5;
+const CHUNK_RETRY_BASE_MS = 1000;
+
+type ResumableUploadStatus = { file: drive_v3.Schema$File } | { nextOffset: number };
+
+// 308 means the session is still open and tells us how much Drive has received
+const isUploadStatus = (status: number) => (status >= 200 && status < 300) || status === 308;
 
 export interface DriveUploadResult {
   fileId: string;
@@ -11,16 +37,19 @@ export interface DriveUploadResult {
   webContentLink: string;
 }
 
-export interface AttachmentData {
-  fileName: string;
-  mimeType: string;
-  data: Buffer;
-  size: number;
-}
-
 @Injectable()
-export class DriveService {
+export class DriveService implements StorageProvider {
+  readonly backend = StorageBackend.drive;
   private readonly logger = new Logger(DriveService.name);
+  readonly sharingPolicy: DriveSharingPolicy = parseSharingPolicy(
+    process.env.DRIVE_SHARING,
+    process.env.DRIVE_SHARING_DOMAIN,
+    process.env.DRIVE_SHARING_USERS
+  );
+
+  private readonly chunkSize =
+    Math.max(1, Math.ceil((Number(process.env.DRIVE_UPLOAD_CHUNK_BYTES) || DEFAULT_CHUNK_BYTES) / CHUNK_ALIGNMENT)) *
+    CHUNK_ALIGNMENT;
 
   constructor() {}
 
@@ -32,39 +61,19 @@ export class DriveService {
     try {
       const drive = google.drive({ version: 'v3', auth });
 
-      const stream = new Readable();
-      stream.push(attachmentData.data);
-      stream.push(null);
-
-      const fileMetadata: drive_v3.Schema$File = {
-        name: attachmentData.fileName,
-        parents: folderId ? [folderId] : undefined,
-      };
-
       this.logger.log(`Uploading file: ${attachmentData.fileName} (${this.formatFileSize(attachmentData.size)})`);
 
-      const response = await drive.files.create({
-        requestBody: fileMetadata,
-        media: {
-          mimeType: attachmentData.mimeType,
-          body: stream,
-        },
-        fields: 'id,name,mimeType,size,webViewLink,webContentLink',
-      });
-
-      const file = response.data;
+      const sessionUrl = await withRetry(
+        () => this.startResumableUpload(auth, attachmentData, folderId),
+        { logger: this.logger, label: `Drive upload session for ${attachmentData.fileName}` }
+      );
+      const file = await this.uploadChunks(auth, sessionUrl, attachmentData);
       
       if (!file.id) {
         throw new Error('Upload failed: No file ID returned');
       }
 
-      await drive.permissions.create({
-        fileId: file.id,
-        requestBody: {
-          role: 'reader',
-          type: 'anyone',
-        },
-      });
+      await this.applySharingPolicy(drive, file.id);
 
       const result: DriveUploadResult = {
         fileId: file.id,
@@ -81,7 +90,168 @@ export class DriveService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Failed to upload file ${attachmentData.fileName}: ${errorMessage}`);
-      throw new Error(`Drive upload failed: ${errorMessage}`);
+      throw new Error(`Drive upload failed: ${errorMessage}`, { cause: error });
+    }
+  }
+
+  private async startResumableUpload(
+    auth: Auth.OAuth2Client,
+    attachmentData: AttachmentData,
+    folderId?: string
+  ): Promise<string> {
+    const response = await auth.request({
+      url: DRIVE_UPLOAD_URL,
+      method: 'POST',
+      params: { uploadType: 'resumable', fields: UPLOAD_FIELDS },
+      headers: {
+        'X-Upload-Content-Type': attachmentData.mimeType,
+        'X-Upload-Content-Length': String(attachmentData.size),
+      },
+      data: {
+        name: attachmentData.fileName,
+        parents: folderId ? [folderId] : undefined,
+      },
+    });
+
+    const location = (response.headers as Record<string, string | undefined>).location;
+    if (!location) {
+      throw new Error('Drive did not return a resumable upload session');
+    }
+
+    return location;
+  }
+
+  // Chunks are read from the spooled file one at a time, so memory use is bounded by the chunk size
+  private async uploadChunks(
+    auth: Auth.OAuth2Client,
+    sessionUrl: string,
+    attachmentData: AttachmentData
+  ): Promise<drive_v3.Schema$File> {
+    const handle = await open(attachmentData.filePath, 'r');
+
+    try {
+      let status: ResumableUploadStatus = { nextOffset: 0 };
+      let failures = 0;
+
+      while ('nextOffset' in status) {
+        try {
+          status = await this.putChunk(auth, sessionUrl, handle, status.nextOffset, attachmentData);
+          failures = 0;
+        } catch (error) {
+          if (failures >= CHUNK_RETRIES || !isTransientError(error)) {
+            throw error;
+          }
+
+          failures++;
+          const delay = CHUNK_RETRY_BASE_MS * 2 ** (failures - 1);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.warn(
+            `Chunk upload for ${attachmentData.fileName} failed (${errorMessage}), resuming in ${delay}ms (${failures}/${CHUNK_RETRIES})`
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+
+          // Drive may have kept part of the failed chunk, so ask where to resume
+          status = await withRetry(
+            () => this.queryUploadStatus(auth, sessionUrl, attachmentData.size),
+            { logger: this.logger, label: `Drive upload status for ${attachmentData.fileName}` }
+          );
+        }
+      }
+
+      return status.file;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async putChunk(
+    auth: Auth.OAuth2Client,
+    sessionUrl: string,
+    handle: FileHandle,
+    offset: number,
+    attachmentData: AttachmentData
+  ): Promise<ResumableUploadStatus> {
+    const total = attachmentData.size;
+    const chunk = Buffer.alloc(Math.min(this.chunkSize, total - offset));
+    await handle.read(chunk, 0, chunk.length, offset);
+
+    const response = await auth.request<drive_v3.Schema$File>({
+      url: sessionUrl,
+      method: 'PUT',
+      headers: {
+        'Content-Type': attachmentData.mimeType,
+        'Content-Range': total === 0 ? 'bytes */0' : `bytes ${offset}-${offset + chunk.length - 1}/${total}`,
+      },
+      data: chunk,
+      validateStatus: isUploadStatus,
+    });
+
+    return this.toUploadStatus(response.status, response.headers as Record<string, string | undefined>, response.data);
+  }
+
+  private async queryUploadStatus(
+    auth: Auth.OAuth2Client,
+    sessionUrl: string,
+    total: number
+  ): Promise<ResumableUploadStatus> {
+    const response = await auth.request<drive_v3.Schema$File>({
+      url: sessionUrl,
+      method: 'PUT',
+      headers: { 'Content-Range': `bytes */${total}` },
+      validateStatus: isUploadStatus,
+    });
+
+    return this.toUploadStatus(response.status, response.headers as Record<string, string | undefined>, response.data);
+  }
+
+  private toUploadStatus(
+    status: number,
+    headers: Record<string, string | undefined>,
+    file: drive_v3.Schema$File
+  ): ResumableUploadStatus {
+    if (status !== 308) {
+      return { file };
+    }
+
+    // "Range: bytes=0-N" lists what Drive has; no header means nothing was stored yet
+    const match = headers.range?.match(/bytes=0-(\d+)/);
+    return { nextOffset: match ? Number(match[1]) + 1 : 0 };
+  }
+
+  async openReadStream(context: StorageReadContext, key: string): Promise<Readable> {
+    const drive = google.drive({ version: 'v3', auth: await context.getAuthClient() });
+    const response = await drive.files.get({ fileId: key, alt: 'media' }, { responseType: 'stream' });
+    return response.data;
+  }
+
+  // Files uploaded before sharing was configurable were readable by anyone with the link
+  async removePublicAccess(auth: Auth.OAuth2Client, fileId: string): Promise<number> {
+    const drive = google.drive({ version: 'v3', auth });
+
+    const response = await drive.permissions.list({ fileId, fields: 'permissions(id,type)' });
+    const publicPermissions = (response.data.permissions || []).filter(
+      (permission): permission is drive_v3.Schema$Permission & { id: string } =>
+        permission.type === 'anyone' && !!permission.id
+    );
+
+    for (const permission of publicPermissions) {
+      await drive.permissions.delete({ fileId, permissionId: permission.id });
+    }
+
+    if (publicPermissions.length > 0) {
+      await this.applySharingPolicy(drive, fileId);
+    }
+
+    return publicPermissions.length;
+  }
+
+  private async applySharingPolicy(drive: drive_v3.Drive, fileId: string): Promise<void> {
+    for (const permission of getSharingPermissions(this.sharingPolicy)) {
+      await drive.permissions.create({
+        fileId,
+        requestBody: permission,
+        ...(permission.type === 'user' && { sendNotificationEmail: false }),
+      });
     }
   }
 
@@ -125,39 +295,41 @@ export class DriveService {
   }
 
   async uploadAttachments(
-    auth: Auth.OAuth2Client,
-    attachments: AttachmentData[],
-    emailSubject?: string
-  ): Promise<DriveUploadResult[]> {
+    context: StorageUploadContext,
+    attachments: AttachmentData[]
+  ): Promise<UploadResult[]> {
     if (attachments.length === 0) {
       return [];
     }
 
     try {
+      const auth = await context.getAuthClient();
       const mainFolderId = await this.getOrCreateAttachmentsFolder(auth);
       
       let targetFolderId = mainFolderId;
-      if (attachments.length > 1 && emailSubject) {
-        targetFolderId = await this.createEmailFolder(auth, mainFolderId, emailSubject);
+      if (attachments.length > 1 && context.emailSubject) {
+        targetFolderId = await this.createEmailFolder(auth, mainFolderId, context.emailSubject);
       }
 
-      const results: DriveUploadResult[] = [];
-
-      for (const attachment of attachments) {
-        try {
+      return await uploadEach(
+        attachments,
+        async (attachment) => {
           const result = await this.uploadFile(auth, attachment, targetFolderId);
-          results.push(result);
-        } catch (error) {
-          this.logger.error(`Failed to upload attachment ${attachment.fileName}:`, error);
-        }
-      }
-
-      this.logger.log(`Uploaded ${results.length}/${attachments.length} attachments successfully`);
-      return results;
+          return {
+            provider: this.backend,
+            key: result.fileId,
+            fileName: result.fileName,
+            mimeType: result.mimeType,
+            size: result.size || attachment.size,
+            sha256: attachment.sha256,
+          };
+        },
+        this.logger
+      );
 
     } catch (error) {
       this.logger.error('Failed to upload attachments batch:', error);
-      return [];
+      return failAll(attachments, error instanceof Error ? error.message : 'Unknown error');
     }
   }
 
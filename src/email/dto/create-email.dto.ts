@@ -1,6 +1,17 @@
+import { EmailCategory } from '../../../generated/prisma';
+
 export class CreateEmailDto {
     messageId: string;
     threadId: string;
+    rfcMessageId: string | null;
+    inReplyTo: string | null;
+    references: string[];
+    replyTo: string | null;
+    listId: string | null;
+    listUnsubscribe: string | null;
+    autoSubmitted: string | null;
+    category: EmailCategory;
+    headers: { name: string; value: string }[];
     subject: string;
     bodyText: string;
     bodyHtml: string;
@@ -9,5 +20,6 @@ export class CreateEmailDto {
     cc: string;
     bcc: string;
     date: Date;
+    labelIds: string[];
   }
   
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AttachmentAccessGuard } from './attachment-access.guard';
+import { AttachmentDownloadService } from './attachment-download.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { GoogleAuthService } from '../auth/google-auth.service';
+
+const ATTACHMENT_ID = '0b5c4f0e-9d55-4c71-a1d4-3f6f7d6c1e2a';
+
+const contextFor = (
+  request: { headers?: Record<string, string>; query?: Record<string, string> },
+  allowSignedUrl = true
+): ExecutionContext =>
+  ({
+    getHandler: () => (allowSignedUrl ? downloadHandler : signedUrlHandler),
+    switchToHttp: () => ({
+      getRequest: () => ({ headers: {}, query: {}, params: { id: ATTACHMENT_ID }, ...request }),
+    }),
+  }) as unknown as ExecutionContext;
+
+function downloadHandler() {}
+function signedUrlHandler() {}
+Reflect.defineMetadata('attachment-access:allow-signed-url', true, downloadHandler);
+
+describe('AttachmentAccessGuard', () => {
+  const originalEnv = process.env;
+  const prisma = { attachment: { findUnique: jest.fn() } };
+
+  let downloads: AttachmentDownloadService;
+
+  const createGuard = () => new AttachmentAccessGuard(new Reflector(), downloads);
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ATTACHMENT_URL_SECRET: 'test-secret', APP_BASE_URL: 'https://earc.example.com/' };
+    downloads = new AttachmentDownloadService(
+      prisma as unknown as PrismaService,
+      {} as StorageService,
+      {} as GoogleAuthService
+    );
+    prisma.attachment.findUnique.mockResolvedValue({ id: ATTACHMENT_ID, storageKey: 'file-1' });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.useRealTimers();
+  });
+
+  const signedQuery = async (ttlSeconds?: number) => {
+    const { url } = await downloads.createSignedUrl(ATTACHMENT_ID, ttlSeconds);
+    expect(url.startsWith(`https://earc.example.com/gmail/attachments/${ATTACHMENT_ID}/download?`)).toBe(true);
+    return Object.fromEntries(new URL(url).searchParams);
+  };
+
+  it('accepts a signed URL until it expires', async () => {
+    const query = await signedQuery(60);
+    const guard = createGuard();
+
+    expect(guard.canActivate(contextFor({ query }))).toBe(true);
+
+    jest.useFakeTimers({ now: Date.now() + 61 * 1000 });
+    expect(() => guard.canActivate(contextFor({ query }))).toThrow(ForbiddenException);
+  });
+
+  it('rejects tampered signatures and signed URLs on routes that do not allow them', async () => {
+    const query = await signedQuery();
+    process.env.ATTACHMENT_ACCESS_TOKEN = 'api-token';
+    const guard = createGuard();
+
+    expect(() => guard.canActivate(contextFor({ query: { ...query, sig: `${query.sig}x` } }))).toThrow(
+      ForbiddenException
+    );
+    expect(() => guard.canActivate(contextFor({ query }, false))).toThrow(UnauthorizedException);
+  });
+
+  it('accepts the configured bearer token and fails closed without one', () => {
+    expect(() =>
+      createGuard().canActivate(contextFor({ headers: { authorization: 'Bearer api-token' } }))
+    ).toThrow('Attachment access is not configured');
+
+    process.env.ATTACHMENT_ACCESS_TOKEN = 'api-token';
+    const guard = createGuard();
+
+    expect(guard.canActivate(contextFor({ headers: { authorization: 'Bearer api-token' } }))).toBe(true);
+    expect(() => guard.canActivate(contextFor({ headers: { authorization: 'Bearer wrong' } }))).toThrow(
+      UnauthorizedException
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { AttachmentDownloadService } from './attachment-download.service';
+
+const ALLOW_SIGNED_URL = 'attachment-access:allow-signed-url';
+
+// Lets a route accept a signed URL (?expires=&sig=) in place of the access token
+export const AllowSignedUrl = () => SetMetadata(ALLOW_SIGNED_URL, true);
+
+@Injectable()
+export class AttachmentAccessGuard implements CanActivate {
+  private readonly logger = new Logger(AttachmentAccessGuard.name);
+  private readonly accessToken = process.env.ATTACHMENT_ACCESS_TOKEN;
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly downloads: AttachmentDownloadService
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request<{ id: string }>>();
+    const { expires, sig } = request.query;
+
+    if (this.reflector.get<boolean>(ALLOW_SIGNED_URL, context.getHandler()) && sig !== undefined) {
+      if (
+        typeof expires === 'string' &&
+        typeof sig === 'string' &&
+        this.downloads.isValidSignature(request.params.id, expires, sig)
+      ) {
+        return true;
+      }
+      throw new ForbiddenException('Invalid or expired download link');
+    }
+
+    // Fails closed: without a configured token only signed URLs can reach attachments
+    if (!this.accessToken) {
+      this.logger.warn('Rejected attachment request: ATTACHMENT_ACCESS_TOKEN is not configured');
+      throw new UnauthorizedException('Attachment access is not configured');
+    }
+
+    const authorization = request.headers.authorization;
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+    const expected = Buffer.from(this.accessToken);
+    const received = Buffer.from(token);
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new UnauthorizedException('Invalid attachment access token');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,119 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Readable } from 'stream';
+import { PrismaService } from '../prisma/prisma.service';
+import { GoogleAuthService } from '../auth/google-auth.service';
+import { StorageService } from '../storage/storage.service';
+
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 5 * 60;
+export const MAX_SIGNED_URL_TTL_SECONDS = 24 * 60 * 60;
+
+export interface AttachmentDownload {
+  stream: Readable;
+  fileName: string;
+  mimeType: string;
+  size: number | null;
+}
+
+export interface SignedDownloadUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+// RFC 6266: a quoted ASCII fallback plus the UTF-8 name for clients that understand filename*
+export function attachmentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+@Injectable()
+export class AttachmentDownloadService {
+  private readonly logger = new Logger(AttachmentDownloadService.name);
+  private readonly secret: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageService: StorageService,
+    private readonly googleAuthService: GoogleAuthService
+  ) {
+    this.secret = process.env.ATTACHMENT_URL_SECRET || '';
+
+    if (!this.secret) {
+      this.logger.warn('ATTACHMENT_URL_SECRET is not set; signed download URLs will not survive a restart or work across replicas');
+      this.secret = randomBytes(32).toString('hex');
+    }
+  }
+
+  async open(id: string): Promise<AttachmentDownload> {
+    const attachment = await this.findStoredAttachment(id);
+    const storage = this.storageService.getBackend(attachment.storageProvider);
+
+    const stream = await storage.openReadStream(
+      {
+        getAuthClient: async () => {
+          const account = await this.googleAuthService.getConnectedAccount(attachment.accountId);
+
+          if (!account) {
+            throw new ConflictException(`Attachment ${id} belongs to an account that is no longer connected`);
+          }
+
+          return this.googleAuthService.getAuthenticatedClient(account.token);
+        },
+      },
+      attachment.storageKey
+    );
+
+    return {
+      stream,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+    };
+  }
+
+  async createSignedUrl(id: string, ttlSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS): Promise<SignedDownloadUrl> {
+    await this.findStoredAttachment(id);
+
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const baseUrl = (process.env.APP_BASE_URL || '').replace(/\/+$/, '');
+    const params = new URLSearchParams({ expires: String(expires), sig: this.sign(id, expires) });
+
+    return {
+      url: `${baseUrl}/gmail/attachments/${id}/download?${params.toString()}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  isValidSignature(id: string, expires: string, signature: string): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 <= Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(id, expiresAt));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  private sign(id: string, expires: number): string {
+    return createHmac('sha256', this.secret).update(`${id}:${expires}`).digest('base64url');
+  }
+
+  private async findStoredAttachment(id: string) {
+    const attachment = await this.prisma.attachment.findUnique({ where: { id } });
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment ${id} not found`);
+    }
+
+    if (!attachment.storageKey) {
+      throw new NotFoundException(`Attachment ${id} has no stored file`);
+    }
+
+    return { ...attachment, storageKey: attachment.storageKey };
+  }
+}
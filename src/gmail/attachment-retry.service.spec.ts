@@ -0,0 +1,77 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { AttachmentRetryService } from './attachment-retry.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { GoogleAuthService } from '../auth/google-auth.service';
+import { GmailService } from './gmail.service';
+
+describe('AttachmentRetryService', () => {
+  const prisma = {
+    attachment: { findMany: jest.fn(), findUnique: jest.fn(), findUniqueOrThrow: jest.fn() },
+  };
+  const leaderElection = {
+    runExclusive: jest.fn((_name: string, _ttl: number, task: () => Promise<void>) => task()),
+  };
+  const googleAuthService = { getConnectedAccount: jest.fn() };
+  const gmailService = { retryAttachments: jest.fn(), markAttachmentFailed: jest.fn() };
+  const account = { id: 'account-1' };
+
+  const candidate = (id: string, messageId: string, accountId = 'account-1') => ({
+    id,
+    partId: '1',
+    fileName: `${id}.pdf`,
+    attempts: 1,
+    status: 'failed',
+    emailId: `${accountId}/${messageId}`,
+    accountId,
+    email: { messageId },
+  });
+
+  let service: AttachmentRetryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AttachmentRetryService(
+      prisma as unknown as PrismaService,
+      leaderElection as unknown as LeaderElectionService,
+      googleAuthService as unknown as GoogleAuthService,
+      gmailService as unknown as GmailService
+    );
+  });
+
+  it('retries due uploads one message at a time', async () => {
+    const first = candidate('a1', 'm1');
+    const second = candidate('a2', 'm2');
+    const third = candidate('a3', 'm1');
+    const orphan = candidate('a4', 'm3', 'account-2');
+
+    prisma.attachment.findMany.mockResolvedValue([first, second, third, orphan]);
+    googleAuthService.getConnectedAccount.mockImplementation((id: string) =>
+      Promise.resolve(id === 'account-1' ? account : null)
+    );
+    gmailService.retryAttachments.mockResolvedValue(1);
+
+    await service.retryDueUploads();
+
+    expect(gmailService.retryAttachments.mock.calls).toEqual([
+      [account, 'm1', [first, third]],
+      [account, 'm2', [second]],
+    ]);
+    expect(gmailService.markAttachmentFailed).toHaveBeenCalledWith(orphan, 'Account is no longer connected');
+  });
+
+  it('only retries failed uploads on request', async () => {
+    prisma.attachment.findUnique.mockResolvedValueOnce(null);
+    await expect(service.retry('missing')).rejects.toThrow(NotFoundException);
+
+    prisma.attachment.findUnique.mockResolvedValueOnce({ ...candidate('a1', 'm1'), status: 'uploaded' });
+    await expect(service.retry('a1')).rejects.toThrow(ConflictException);
+
+    prisma.attachment.findUnique.mockResolvedValueOnce(candidate('a1', 'm1'));
+    googleAuthService.getConnectedAccount.mockResolvedValueOnce(account);
+    prisma.attachment.findUniqueOrThrow.mockResolvedValueOnce({ id: 'a1', status: 'uploaded' });
+
+    await expect(service.retry('a1')).resolves.toEqual({ id: 'a1', status: 'uploaded' });
+    expect(gmailService.retryAttachments).toHaveBeenCalledWith(account, 'm1', [candidate('a1', 'm1')]);
+  });
+});
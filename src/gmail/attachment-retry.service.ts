@@ -0,0 +1,117 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { GoogleAuthService } from '../auth/google-auth.service';
+import { GmailService } from './gmail.service';
+import { AttachmentStatus, Prisma } from '../../generated/prisma';
+
+const RETRY_BATCH_SIZE = 50;
+// A pending row this old was left behind by a crash or restart mid-upload
+const STALE_PENDING_MS = 60 * 60 * 1000;
+
+const retryCandidateSelect = {
+  id: true,
+  partId: true,
+  fileName: true,
+  attempts: true,
+  status: true,
+  emailId: true,
+  accountId: true,
+  email: { select: { messageId: true } },
+} satisfies Prisma.AttachmentSelect;
+
+type RetryCandidate = Prisma.AttachmentGetPayload<{ select: typeof retryCandidateSelect }>;
+
+@Injectable()
+export class AttachmentRetryService {
+  private readonly logger = new Logger(AttachmentRetryService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leaderElection: LeaderElectionService,
+    private googleAuthService: GoogleAuthService,
+    private gmailService: GmailService
+  ) {}
+
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async retryDueUploads(): Promise<void> {
+    await this.leaderElection.runExclusive('attachment-retry', 30 * 60 * 1000, async () => {
+      const due = await this.prisma.attachment.findMany({
+        where: {
+          OR: [
+            { status: AttachmentStatus.failed, nextAttemptAt: { lte: new Date() } },
+            { status: AttachmentStatus.pending, createdAt: { lt: new Date(Date.now() - STALE_PENDING_MS) } },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+        take: RETRY_BATCH_SIZE,
+        select: retryCandidateSelect,
+      });
+
+      if (due.length === 0) {
+        return;
+      }
+
+      // Attachments of one message are retried together so the message is fetched once
+      const byMessage = new Map<string, RetryCandidate[]>();
+      for (const attachment of due) {
+        const group = byMessage.get(attachment.emailId) ?? [];
+        group.push(attachment);
+        byMessage.set(attachment.emailId, group);
+      }
+
+      let uploaded = 0;
+      for (const attachments of byMessage.values()) {
+        try {
+          uploaded += await this.retryMessage(attachments);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.error(`Failed to retry attachments of message ${attachments[0].email.messageId}: ${errorMessage}`);
+        }
+      }
+
+      this.logger.log(`Retried ${due.length} attachment upload(s), ${uploaded} succeeded`);
+    });
+  }
+
+  async retry(id: string) {
+    const attachment = await this.prisma.attachment.findUnique({ where: { id }, select: retryCandidateSelect });
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment ${id} not found`);
+    }
+
+    if (attachment.status !== AttachmentStatus.failed) {
+      throw new ConflictException(`Attachment ${id} is ${attachment.status}; only failed uploads can be retried`);
+    }
+
+    const account = await this.googleAuthService.getConnectedAccount(attachment.accountId);
+
+    if (!account) {
+      throw new ConflictException(`Attachment ${id} belongs to an account that is no longer connected`);
+    }
+
+    await this.gmailService.retryAttachments(account, attachment.email.messageId, [attachment]);
+
+    return this.prisma.attachment.findUniqueOrThrow({
+      where: { id },
+      select: { id: true, fileName: true, status: true, attempts: true, lastError: true, nextAttemptAt: true, storageKey: true },
+    });
+  }
+
+  private async retryMessage(attachments: RetryCandidate[]): Promise<number> {
+    const { accountId, email } = attachments[0];
+    const account = await this.googleAuthService.getConnectedAccount(accountId);
+
+    // Counts against the attempt limit, so attachments of a removed account eventually stop being picked up
+    if (!account) {
+      for (const attachment of attachments) {
+        await this.gmailService.markAttachmentFailed(attachment, 'Account is no longer connected');
+      }
+      return 0;
+    }
+
+    return this.gmailService.retryAttachments(account, email.messageId, attachments);
+  }
+}
@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { AttachmentTooLargeError, GmailAttachmentDecoder, spoolToFile } from './attachment-spool';
+
+describe('attachment spooling', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'spool-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  // Splits the JSON body at awkward offsets, as a slow network would
+  const chunked = (body: string, size: number) => {
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < body.length; i += size) {
+      chunks.push(Buffer.from(body.slice(i, i + size)));
+    }
+    return Readable.from(chunks);
+  };
+
+  it('decodes the base64url data field of a streamed Gmail response', async () => {
+    const content = Buffer.from('Quarterly numbers ✓ '.repeat(50));
+    const body = JSON.stringify({ attachmentId: 'a"1', size: content.length, data: content.toString('base64url') });
+    const filePath = join(dir, 'attachment');
+
+    const spooled = await spoolToFile(chunked(body, 7).pipe(new GmailAttachmentDecoder()), filePath, 1024 * 1024);
+
+    expect(spooled).toEqual({
+      size: content.length,
+      sha256: createHash('sha256').update(content).digest('hex'),
+    });
+    await expect(readFile(filePath)).resolves.toEqual(content);
+  });
+
+  it('stops once the attachment exceeds the size limit', async () => {
+    const source = Readable.from([Buffer.alloc(600), Buffer.alloc(600)]);
+
+    await expect(spoolToFile(source, join(dir, 'attachment'), 1000)).rejects.toBeInstanceOf(AttachmentTooLargeError);
+  });
+
+  it('fails when the response has no data field', async () => {
+    const source = chunked(JSON.stringify({ size: 0 }), 4).pipe(new GmailAttachmentDecoder());
+
+    await expect(spoolToFile(source, join(dir, 'attachment'), 1000)).rejects.toThrow('No attachment data received');
+  });
+});
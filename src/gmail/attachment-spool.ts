@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export const DEFAULT_MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+export class AttachmentTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`Attachment is larger than the ${limit}-byte limit`);
+    this.name = 'AttachmentTooLargeError';
+  }
+}
+
+export interface SpooledAttachment {
+  size: number;
+  sha256: string;
+}
+
+type DecoderState = 'scan' | 'string' | 'data';
+
+// Gmail returns attachments as {"size": n, "data": "<base64url>"}; this decodes "data" as it streams in
+// instead of buffering the whole JSON body
+export class GmailAttachmentDecoder extends Transform {
+  private state: DecoderState = 'scan';
+  private escaped = false;
+  private token = '';
+  private lastKey = '';
+  private afterColon = false;
+  private pending = '';
+  private found = false;
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const text = chunk.toString('latin1');
+    let encoded = '';
+
+    for (let i = 0; i < text.length; i++) {
+      if (this.state === 'data') {
+        const end = text.indexOf('"', i);
+        encoded += text.slice(i, end === -1 ? text.length : end);
+        if (end === -1) {
+          break;
+        }
+        i = end;
+        this.state = 'scan';
+        this.afterColon = false;
+        this.found = true;
+        continue;
+      }
+
+      const char = text[i];
+
+      if (this.state === 'string') {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          if (!this.afterColon) {
+            this.lastKey = this.token;
+          }
+          this.afterColon = false;
+          this.state = 'scan';
+        } else if (this.token.length < 64) {
+          this.token += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.state = this.afterColon && this.lastKey === 'data' ? 'data' : 'string';
+        this.token = '';
+      } else if (char === ':') {
+        this.afterColon = true;
+      } else if (char === ',') {
+        this.afterColon = false;
+      }
+    }
+
+    this.decode(encoded);
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (!this.found) {
+      callback(new Error('No attachment data received'));
+      return;
+    }
+
+    if (this.pending) {
+      this.push(Buffer.from(this.pending, 'base64url'));
+    }
+    callback();
+  }
+
+  // base64 decodes in groups of four characters; a partial group waits for the next chunk
+  private decode(encoded: string): void {
+    const text = this.pending + encoded;
+    const usable = text.length - (text.length % 4);
+
+    this.pending = text.slice(usable);
+    if (usable > 0) {
+      this.push(Buffer.from(text.slice(0, usable), 'base64url'));
+    }
+  }
+}
+
+export async function spoolToFile(
+  source: Readable,
+  filePath: string,
+  maxBytes: number
+): Promise<SpooledAttachment> {
+  const hash = createHash('sha256');
+  let size = 0;
+
+  await pipeline(
+    source,
+    new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          callback(new AttachmentTooLargeError(maxBytes));
+          return;
+        }
+
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    }),
+    createWriteStream(filePath)
+  );
+
+  return { size, sha256: hash.digest('hex') };
+}
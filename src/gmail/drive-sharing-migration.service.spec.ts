@@ -0,0 +1,67 @@
+import { DriveSharingMigrationService } from './drive-sharing-migration.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { GoogleAuthService } from '../auth/google-auth.service';
+import { DriveService } from '../drive/drive.service';
+
+describe('DriveSharingMigrationService', () => {
+  const prisma = {
+    attachment: { findMany: jest.fn(), updateMany: jest.fn() },
+  };
+  const leaderElection = {
+    runExclusive: jest.fn((_name: string, _ttl: number, task: () => Promise<void>) => task()),
+  };
+  const googleAuthService = {
+    getConnectedAccount: jest.fn(),
+    getAuthenticatedClient: jest.fn(),
+  };
+  const driveService = { removePublicAccess: jest.fn() };
+
+  const attachment = (id: string, accountId: string) => ({
+    id,
+    accountId,
+    storageKey: `file-${id}`,
+    driveLink: null,
+  });
+
+  let service: DriveSharingMigrationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    googleAuthService.getConnectedAccount.mockImplementation((id: string) => Promise.resolve({ id, token: { id } }));
+    googleAuthService.getAuthenticatedClient.mockImplementation((token: { id: string }) =>
+      Promise.resolve({ client: token.id })
+    );
+    driveService.removePublicAccess.mockResolvedValue(1);
+    service = new DriveSharingMigrationService(
+      prisma as unknown as PrismaService,
+      leaderElection as unknown as LeaderElectionService,
+      googleAuthService as unknown as GoogleAuthService,
+      driveService as unknown as DriveService
+    );
+  });
+
+  it('removes public links with the client of each attachment account', async () => {
+    prisma.attachment.findMany
+      .mockResolvedValueOnce([attachment('a1', 'account-1'), attachment('a2', 'account-2')])
+      .mockResolvedValueOnce([]);
+
+    await service.removePublicLinks();
+
+    expect(driveService.removePublicAccess.mock.calls).toEqual([
+      [{ client: 'account-1' }, 'file-a1'],
+      [{ client: 'account-2' }, 'file-a2'],
+    ]);
+    expect(prisma.attachment.updateMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves files of disconnected accounts for a later run', async () => {
+    googleAuthService.getConnectedAccount.mockResolvedValue(null);
+    prisma.attachment.findMany.mockResolvedValueOnce([attachment('a1', 'account-1')]).mockResolvedValueOnce([]);
+
+    await service.removePublicLinks();
+
+    expect(driveService.removePublicAccess).not.toHaveBeenCalled();
+    expect(prisma.attachment.updateMany).not.toHaveBeenCalled();
+  });
+});
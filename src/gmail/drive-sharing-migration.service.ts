@@ -0,0 +1,113 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { Auth } from 'googleapis';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { GoogleAuthService } from '../auth/google-auth.service';
+import { DriveService } from '../drive/drive.service';
+import { parseDriveFileId } from '../storage/storage.service';
+import { getHttpStatus } from '../common/google-api-errors';
+import { StorageBackend } from '../../generated/prisma';
+
+const MIGRATION_BATCH_SIZE = 100;
+
+// Removes the "anyone with the link" permission that uploads used to get and applies the sharing policy instead
+@Injectable()
+export class DriveSharingMigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(DriveSharingMigrationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leaderElection: LeaderElectionService,
+    private googleAuthService: GoogleAuthService,
+    private driveService: DriveService
+  ) {}
+
+  onApplicationBootstrap() {
+    void this.removePublicLinks().catch((error) => {
+      this.logger.error('Drive sharing migration failed:', error);
+    });
+  }
+
+  async removePublicLinks(): Promise<void> {
+    await this.leaderElection.runExclusive('drive-sharing-migration', 60 * 60 * 1000, async () => {
+      const clients = new Map<string, Auth.OAuth2Client | null>();
+      const checkedFiles = new Set<string>();
+      let cursor: string | undefined;
+      let updated = 0;
+
+      for (;;) {
+        const attachments = await this.prisma.attachment.findMany({
+          where: {
+            storageProvider: StorageBackend.drive,
+            sharingUpdatedAt: null,
+            // Legacy rows may still be waiting for their storage key backfill
+            OR: [{ storageKey: { not: null } }, { driveLink: { not: null } }],
+            ...(cursor && { id: { gt: cursor } }),
+          },
+          orderBy: { id: 'asc' },
+          take: MIGRATION_BATCH_SIZE,
+          select: { id: true, accountId: true, storageKey: true, driveLink: true },
+        });
+
+        if (attachments.length === 0) {
+          break;
+        }
+
+        for (const attachment of attachments) {
+          const fileId = attachment.storageKey ?? parseDriveFileId(attachment.driveLink!);
+          if (!fileId) {
+            continue;
+          }
+
+          if (!checkedFiles.has(fileId)) {
+            const auth = await this.getClient(clients, attachment.accountId);
+            if (!auth) {
+              continue;
+            }
+
+            try {
+              if ((await this.driveService.removePublicAccess(auth, fileId)) > 0) {
+                updated++;
+              }
+            } catch (error) {
+              // A file deleted from Drive has nothing left to unshare
+              if (getHttpStatus(error) !== 404) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                this.logger.warn(`Failed to update sharing for Drive file ${fileId}: ${errorMessage}`);
+                continue;
+              }
+            }
+
+            checkedFiles.add(fileId);
+          }
+
+          await this.prisma.attachment.updateMany({
+            where: {
+              OR: [{ id: attachment.id }, { storageProvider: StorageBackend.drive, storageKey: fileId }],
+            },
+            data: { sharingUpdatedAt: new Date() },
+          });
+        }
+
+        cursor = attachments[attachments.length - 1].id;
+      }
+
+      if (updated > 0) {
+        this.logger.log(`Removed public links from ${updated} Drive file(s)`);
+      }
+    });
+  }
+
+  // Files of disconnected accounts are left unmarked and retried on the next start
+  private async getClient(
+    clients: Map<string, Auth.OAuth2Client | null>,
+    accountId: string
+  ): Promise<Auth.OAuth2Client | null> {
+    if (!clients.has(accountId)) {
+      const account = await this.googleAuthService.getConnectedAccount(accountId);
+      clients.set(accountId, account ? await this.googleAuthService.getAuthenticatedClient(account.token) : null);
+    }
+
+    return clients.get(accountId)!;
+  }
+}
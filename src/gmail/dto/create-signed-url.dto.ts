@@ -0,0 +1,10 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { MAX_SIGNED_URL_TTL_SECONDS } from '../attachment-download.service';
+
+export class CreateSignedUrlDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SIGNED_URL_TTL_SECONDS)
+  expiresIn?: number;
+}
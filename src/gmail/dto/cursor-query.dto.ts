@@ -0,0 +1,27 @@
+import { Type } from 'class-transformer';
+import { IsBoolean, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { MAX_PAGE_SIZE } from '../../common/dto/pagination-query.dto';
+import { ToBoolean } from '../../common/dto/query-transforms';
+import { SORT_ORDERS, SortOrder } from '../list-query';
+
+export class CursorQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @IsIn(SORT_ORDERS)
+  sort?: SortOrder;
+
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean()
+  includeTotal?: boolean;
+}
@@ -0,0 +1,7 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class LabelsQueryDto {
+  @IsOptional()
+  @IsUUID()
+  accountId?: string;
+}
@@ -0,0 +1,38 @@
+import { IsEnum, IsISO8601, IsOptional, IsString, IsUUID, Matches } from 'class-validator';
+import { AttachmentStatus } from '../../../generated/prisma';
+import { CursorQueryDto } from './cursor-query.dto';
+import { MIME_TYPE_PATTERN } from '../list-query';
+
+export class ListAttachmentsQueryDto extends CursorQueryDto {
+  @IsOptional()
+  @IsUUID()
+  accountId?: string;
+
+  @IsOptional()
+  @IsString()
+  threadId?: string;
+
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  @IsOptional()
+  @IsString()
+  to?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  after?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  before?: string;
+
+  @IsOptional()
+  @Matches(MIME_TYPE_PATTERN, { message: 'mimeType must be a MIME type such as application/pdf or image/*' })
+  mimeType?: string;
+
+  @IsOptional()
+  @IsEnum(AttachmentStatus)
+  status?: AttachmentStatus;
+}
@@ -0,0 +1,48 @@
+import { IsBoolean, IsEnum, IsISO8601, IsOptional, IsString, IsUUID, Matches } from 'class-validator';
+import { EmailCategory } from '../../../generated/prisma';
+import { ToBoolean } from '../../common/dto/query-transforms';
+import { CursorQueryDto } from './cursor-query.dto';
+import { MIME_TYPE_PATTERN } from '../list-query';
+
+export class ListEmailsQueryDto extends CursorQueryDto {
+  @IsOptional()
+  @IsUUID()
+  accountId?: string;
+
+  @IsOptional()
+  @IsString()
+  threadId?: string;
+
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  @IsOptional()
+  @IsString()
+  to?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  after?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  before?: string;
+
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean()
+  hasAttachments?: boolean;
+
+  @IsOptional()
+  @Matches(MIME_TYPE_PATTERN, { message: 'attachmentType must be a MIME type such as image/png or image/*' })
+  attachmentType?: string;
+
+  @IsOptional()
+  @IsEnum(EmailCategory)
+  category?: EmailCategory;
+
+  @IsOptional()
+  @IsString()
+  label?: string;
+}
@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import { IsDefined, IsObject, IsOptional, IsString, ValidateNested } from 'class-validator';
+
+export class PubSubMessageDto {
+  @IsOptional()
+  @IsString()
+  data?: string;
+
+  @IsString()
+  messageId: string;
+
+  @IsOptional()
+  @IsString()
+  publishTime?: string;
+
+  @IsOptional()
+  @IsObject()
+  attributes?: Record<string, string>;
+}
+
+export class PubSubPushDto {
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => PubSubMessageDto)
+  message: PubSubMessageDto;
+
+  @IsString()
+  subscription: string;
+}
@@ -0,0 +1,8 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { REMOTE_IMAGE_MODES, RemoteImageMode } from '../email-render.service';
+
+export class RenderQueryDto {
+  @IsOptional()
+  @IsIn(REMOTE_IMAGE_MODES)
+  images?: RemoteImageMode;
+}
@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import { Trim } from '../../common/dto/query-transforms';
+import { CursorQueryDto } from './cursor-query.dto';
+
+export class SearchQueryDto extends CursorQueryDto {
+  @Trim()
+  @IsString()
+  @IsNotEmpty({ message: 'q is required' })
+  q: string;
+
+  @IsOptional()
+  @IsUUID()
+  accountId?: string;
+}
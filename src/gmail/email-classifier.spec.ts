@@ -0,0 +1,44 @@
+import { classifyEmail } from './email-classifier';
+
+const headers = (values: Record<string, string>) =>
+  Object.entries(values).map(([name, value]) => ({ name, value }));
+
+describe('classifyEmail', () => {
+  it('treats ordinary mail between people as personal', () => {
+    expect(
+      classifyEmail(headers({ From: 'Jane Doe <jane@example.com>', Subject: 'Lunch tomorrow?' })),
+    ).toBe('personal');
+  });
+
+  it.each([
+    ['a delivery status report', { From: 'someone@example.com', 'Content-Type': 'multipart/report; report-type=delivery-status; boundary="x"' }],
+    ['an X-Failed-Recipients header', { From: 'mail@example.com', 'X-Failed-Recipients': 'gone@example.org' }],
+    ['a mailer-daemon failure notice', { From: 'Mail Delivery Subsystem <MAILER-DAEMON@example.com>', Subject: 'Undeliverable: Report' }],
+  ])('detects bounces from %s', (_, values) => {
+    expect(classifyEmail(headers(values))).toBe('bounce');
+  });
+
+  it.each([
+    ['List-Id', { 'List-Id': 'Developers <dev.lists.example.net>' }],
+    ['List-Post', { 'List-Post': '<mailto:dev@lists.example.net>' }],
+    ['Precedence: list', { Precedence: 'list' }],
+  ])('detects mailing lists from %s', (_, values) => {
+    expect(classifyEmail(headers({ From: 'jane@example.com', ...values }))).toBe('mailing_list');
+  });
+
+  it.each([
+    ['Auto-Submitted', { From: 'jane@example.com', 'Auto-Submitted': 'auto-replied' }],
+    ['Precedence: bulk', { From: 'news@shop.example', Precedence: 'bulk' }],
+    ['List-Unsubscribe without a list', { From: 'news@shop.example', 'List-Unsubscribe': '<https://shop.example/u>' }],
+    ['a no-reply sender', { From: 'GitHub <noreply@github.com>' }],
+    ['a notifications sender', { From: 'notifications+abc@service.example' }],
+  ])('detects automated mail from %s', (_, values) => {
+    expect(classifyEmail(headers(values))).toBe('automated');
+  });
+
+  it('does not treat Auto-Submitted: no as automated', () => {
+    expect(classifyEmail(headers({ From: 'jane@example.com', 'Auto-Submitted': 'no' }))).toBe(
+      'personal',
+    );
+  });
+});
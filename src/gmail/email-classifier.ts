@@ -0,0 +1,52 @@
+import { EmailCategory } from '../../generated/prisma';
+import { parseAddressList } from '../contacts/address-parser';
+import { parseHeaderValue } from '../mime/mime-part';
+
+export interface RawHeader {
+  name: string;
+  value: string;
+}
+
+const BOUNCE_SENDERS = /^(mailer-daemon|postmaster)@/i;
+const BOUNCE_SUBJECTS =
+  /^(undeliverable|undelivered mail|delivery status notification|mail delivery (failed|failure|system)|returned mail|failure notice|delivery failure)/i;
+const AUTOMATED_SENDERS = /^(no-?reply|do-?not-?reply|notifications?|alerts?|mailer|bounces?)([+._-][^@]*)?@/i;
+const AUTOMATED_PRECEDENCE = new Set(['bulk', 'junk', 'auto_reply']);
+const AUTO_REPLY_HEADERS = ['x-autoreply', 'x-autorespond', 'x-auto-response-suppress'];
+
+export function getHeaderValue(headers: RawHeader[], name: string): string {
+  return headers.find((header) => header.name.toLowerCase() === name.toLowerCase())?.value.trim() || '';
+}
+
+export function classifyEmail(headers: RawHeader[]): EmailCategory {
+  const get = (name: string) => getHeaderValue(headers, name);
+  const sender = parseAddressList(get('From'))[0]?.address || '';
+  const contentType = parseHeaderValue(get('Content-Type'));
+  const autoSubmitted = get('Auto-Submitted').toLowerCase();
+  const precedence = get('Precedence').toLowerCase();
+
+  if (
+    (contentType.value === 'multipart/report' && contentType.params['report-type'] === 'delivery-status') ||
+    get('X-Failed-Recipients') ||
+    (BOUNCE_SENDERS.test(sender) && BOUNCE_SUBJECTS.test(get('Subject')))
+  ) {
+    return EmailCategory.bounce;
+  }
+
+  if (get('List-Id') || get('List-Post') || get('Mailing-List') || precedence === 'list') {
+    return EmailCategory.mailing_list;
+  }
+
+  if (
+    (autoSubmitted && autoSubmitted !== 'no') ||
+    AUTOMATED_PRECEDENCE.has(precedence) ||
+    AUTO_REPLY_HEADERS.some((name) => get(name)) ||
+    get('List-Unsubscribe') ||
+    AUTOMATED_SENDERS.test(sender) ||
+    BOUNCE_SENDERS.test(sender)
+  ) {
+    return EmailCategory.automated;
+  }
+
+  return EmailCategory.personal;
+}
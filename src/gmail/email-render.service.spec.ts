@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { EmailRenderService, linkifyText, rewriteCidUrls } from './email-render.service';
+import { ImageProxyService } from './image-proxy.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('EmailRenderService', () => {
+  let service: EmailRenderService;
+
+  const prisma = {
+    email: { findFirst: jest.fn() },
+    inlineResource: { findFirst: jest.fn() },
+  };
+  const imageProxy = {
+    proxyUrl: jest.fn((url: string) => `/gmail/image-proxy?url=${encodeURIComponent(url)}&sig=s`),
+  };
+
+  const email = (overrides: object) => ({
+    subject: 'Hello',
+    bodyHtml: null,
+    bodyText: null,
+    inlineResources: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailRenderService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ImageProxyService, useValue: imageProxy },
+      ],
+    }).compile();
+
+    service = module.get<EmailRenderService>(EmailRenderService);
+  });
+
+  it('rewrites cid: references to inline resource URLs', async () => {
+    prisma.email.findFirst.mockResolvedValue(
+      email({
+        bodyHtml: '<img src="cid:logo@example.com"><img src=cid:photo%40example.com><img src="cid:missing@example.com">',
+        inlineResources: [{ contentId: 'logo@example.com' }, { contentId: 'photo@example.com' }],
+      }),
+    );
+
+    const { html } = await service.render('msg-1');
+
+    expect(html).toBe(
+      '<img src="/gmail/emails/msg-1/inline/logo%40example.com" />' +
+        '<img src="/gmail/emails/msg-1/inline/photo%40example.com" />' +
+        '<img />',
+    );
+  });
+
+  it('strips scripts, event handlers and javascript: links', async () => {
+    prisma.email.findFirst.mockResolvedValue(
+      email({
+        bodyHtml:
+          '<style>body{background:url(https://t.example/bg)}</style><script>alert(1)</script>' +
+          '<p onclick="steal()">Hi <a href="javascript:alert(1)">there</a> <a href="https://example.com">site</a></p>',
+      }),
+    );
+
+    const { html } = await service.render('msg-1');
+
+    expect(html).toBe(
+      '<p>Hi <a target="_blank" rel="noopener noreferrer">there</a> ' +
+        '<a href="https://example.com" target="_blank" rel="noopener noreferrer">site</a></p>',
+    );
+  });
+
+  it('blocks remote images and remote CSS by default', async () => {
+    prisma.email.findFirst.mockResolvedValue(
+      email({
+        bodyHtml:
+          '<img src="https://tracker.example/open.gif" width="1" height="1">' +
+          '<div style="color: red; background: url(\'https://tracker.example/bg.png\')">x</div>',
+      }),
+    );
+
+    const { html, remoteImages } = await service.render('msg-1');
+
+    expect(html).toBe(
+      '<img width="1" height="1" data-remote-src="https://tracker.example/open.gif" />' +
+        '<div style="color:red;background:none">x</div>',
+    );
+    expect(remoteImages).toEqual({ mode: 'block', blocked: 1, proxied: 0 });
+  });
+
+  it.each([
+    ['unquoted', '<div style=background:url(http://evil.example/p.gif)>x</div>'],
+    ['entity-encoded', '<div style="background:u&#114;l(http://evil.example/p.gif)">x</div>'],
+    ['CSS-escaped', '<div style="background:u\\72 l(http://evil.example/p.gif)">x</div>'],
+    ['image-set', '<div style="background-image:image-set(\'http://evil.example/p.gif\' 1x)">x</div>'],
+    ['-webkit-image-set', '<div style="background-image:-webkit-image-set(url(//evil.example/p.gif) 1x)">x</div>'],
+  ])('removes %s remote CSS from inline styles', async (_, bodyHtml) => {
+    prisma.email.findFirst.mockResolvedValue(email({ bodyHtml }));
+
+    const { html } = await service.render('msg-1');
+
+    expect(html).not.toContain('evil.example');
+    expect(html).toMatch(/^<div style="background(?:-image)?:none">x<\/div>$/);
+  });
+
+  it('routes remote images through the signed proxy in proxy mode', async () => {
+    prisma.email.findFirst.mockResolvedValue(
+      email({ bodyHtml: '<img src="//cdn.example/banner.png" alt="Banner">' }),
+    );
+
+    const { html, remoteImages } = await service.render('msg-1', 'proxy');
+
+    expect(imageProxy.proxyUrl).toHaveBeenCalledWith('https://cdn.example/banner.png');
+    expect(html).toBe(
+      '<img alt="Banner" src="/gmail/image-proxy?url=https%3A%2F%2Fcdn.example%2Fbanner.png&amp;sig=s" />',
+    );
+    expect(remoteImages).toEqual({ mode: 'proxy', blocked: 0, proxied: 1 });
+  });
+
+  it('derives plain text from HTML-only emails', async () => {
+    prisma.email.findFirst.mockResolvedValue(
+      email({ bodyHtml: '<p>Hello <b>world</b></p><p>See <a href="https://example.com">docs</a></p>' }),
+    );
+
+    const { text } = await service.render('msg-1');
+
+    expect(text).toBe('Hello world\n\nSee docs [https://example.com]');
+  });
+
+  it('renders text-only emails as linkified HTML', async () => {
+    prisma.email.findFirst.mockResolvedValue(
+      email({ bodyText: 'Docs at https://example.com/a?b=1&c=2.\nMail ops@example.com <now>' }),
+    );
+
+    const { html, text } = await service.render('msg-1');
+
+    expect(text).toBe('Docs at https://example.com/a?b=1&c=2.\nMail ops@example.com <now>');
+    expect(html).toBe(
+      '<div style="white-space:pre-wrap">Docs at ' +
+        '<a href="https://example.com/a?b=1&amp;c=2" target="_blank" rel="noopener noreferrer">https://example.com/a?b=1&amp;c=2</a>.\n' +
+        'Mail <a href="mailto:ops@example.com" target="_blank" rel="noopener noreferrer">ops@example.com</a> &lt;now&gt;</div>',
+    );
+  });
+
+  it('throws when the email does not exist', async () => {
+    prisma.email.findFirst.mockResolvedValue(null);
+
+    await expect(service.render('missing')).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('leaves cid text outside of URL attributes alone', () => {
+    expect(rewriteCidUrls('<p>cid:logo@example.com</p>', new Set(['logo@example.com']), () => '/x')).toBe(
+      '<p>cid:logo@example.com</p>',
+    );
+  });
+
+  it('links bare www. hosts over http', () => {
+    expect(linkifyText('www.example.com')).toBe(
+      '<div style="white-space: pre-wrap"><a href="http://www.example.com">www.example.com</a></div>',
+    );
+  });
+});
@@ -0,0 +1,212 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import * as sanitizeHtml from 'sanitize-html';
+import { convert } from 'html-to-text';
+import { PrismaService } from '../prisma/prisma.service';
+import { InlineResource } from '../../generated/prisma';
+import { ImageProxyService } from './image-proxy.service';
+import { isInlineImageType } from '../mime/mime-part';
+
+export type RemoteImageMode = 'block' | 'proxy';
+
+export const REMOTE_IMAGE_MODES: RemoteImageMode[] = ['block', 'proxy'];
+
+export interface RenderedEmail {
+  messageId: string;
+  subject: string;
+  html: string;
+  text: string;
+  remoteImages: {
+    mode: RemoteImageMode;
+    blocked: number;
+    proxied: number;
+  };
+}
+
+const CID_REFERENCE_PATTERN = /(\b(?:src|href|background|poster)\s*=\s*["']?)cid:([^"'\s>]+)/gi;
+// CSS functions that can load a resource (url, image-set and its -webkit- form, old IE expression)
+const CSS_RESOURCE_PATTERN = /\b(?:url|image-set|image|cross-fade|element|expression)\s*\(/i;
+const CSS_ESCAPE_PATTERN = /\\(?:([0-9a-f]{1,6})\s?|([\s\S]))/gi;
+const LINK_PATTERN =
+  /\b((?:https?:\/\/|www\.)[^\s<]*[^\s<.,;:!?)\]'"])|\b([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isRemoteUrl = (url: string): boolean => /^(?:https?:)?\/\//i.test(url.trim());
+
+const decodeCssEscapes = (value: string): string =>
+  value.replace(CSS_ESCAPE_PATTERN, (_, hex?: string, char?: string) => {
+    if (!hex) {
+      return char!;
+    }
+    const codePoint = parseInt(hex, 16);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\ufffd';
+  });
+
+// Expects the attribute value as the HTML parser decoded it; any declaration that could fetch something becomes "none"
+export function stripCssResources(style: string): string {
+  return style
+    .split(';')
+    .map((declaration) => {
+      if (!CSS_RESOURCE_PATTERN.test(decodeCssEscapes(declaration))) {
+        return declaration;
+      }
+      const colon = declaration.indexOf(':');
+      return colon === -1 ? '' : `${declaration.slice(0, colon)}:none`;
+    })
+    .join(';');
+}
+
+const withoutCssResources = (attribs: sanitizeHtml.Attributes): sanitizeHtml.Attributes =>
+  attribs.style === undefined ? attribs : { ...attribs, style: stripCssResources(attribs.style) };
+
+export function rewriteCidUrls(
+  html: string,
+  contentIds: Set<string>,
+  urlFor: (contentId: string) => string
+): string {
+  return html.replace(CID_REFERENCE_PATTERN, (reference, prefix: string, rawContentId: string) => {
+    let contentId = rawContentId;
+    try {
+      // RFC 2392 cid URLs are percent-encoded
+      contentId = decodeURIComponent(rawContentId);
+    } catch {
+      // Keep malformed escapes as written
+    }
+
+    return contentIds.has(contentId) ? `${prefix}${urlFor(contentId)}` : reference;
+  });
+}
+
+export function linkifyText(text: string): string {
+  const linked = escapeHtml(text).replace(LINK_PATTERN, (match, url?: string, email?: string) => {
+    if (email) {
+      return `<a href="mailto:${email}">${email}</a>`;
+    }
+    const href = url!.toLowerCase().startsWith('www.') ? `http://${url}` : url;
+    return `<a href="${href}">${match}</a>`;
+  });
+
+  return `<div style="white-space: pre-wrap">${linked}</div>`;
+}
+
+export function htmlToText(html: string): string {
+  return convert(html, {
+    wordwrap: false,
+    selectors: [
+      { selector: 'img', format: 'skip' },
+      { selector: 'a', options: { hideLinkHrefIfSameAsText: true } },
+    ],
+  });
+}
+
+@Injectable()
+export class EmailRenderService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly imageProxy: ImageProxyService
+  ) {}
+
+  async render(messageId: string, mode: RemoteImageMode = 'block'): Promise<RenderedEmail> {
+    const email = await this.prisma.email.findFirst({
+      where: { messageId, deletedAt: null },
+      select: {
+        subject: true,
+        bodyHtml: true,
+        bodyText: true,
+        inlineResources: { select: { contentId: true } },
+      },
+    });
+
+    if (!email) {
+      throw new NotFoundException(`Email ${messageId} not found`);
+    }
+
+    const sourceHtml = email.bodyHtml || linkifyText(email.bodyText || '');
+    const contentIds = new Set(email.inlineResources.map((resource) => resource.contentId));
+    const withInlineUrls = rewriteCidUrls(sourceHtml, contentIds, (contentId) =>
+      this.inlineResourceUrl(messageId, contentId)
+    );
+
+    const remoteImages = { mode, blocked: 0, proxied: 0 };
+    const html = this.sanitize(withInlineUrls, messageId, remoteImages);
+
+    return {
+      messageId,
+      subject: email.subject,
+      html,
+      text: email.bodyText || (email.bodyHtml ? htmlToText(email.bodyHtml) : ''),
+      remoteImages,
+    };
+  }
+
+  async getInlineResource(messageId: string, contentId: string): Promise<InlineResource> {
+    const resource = await this.prisma.inlineResource.findFirst({
+      where: { contentId, email: { messageId, deletedAt: null } },
+    });
+
+    // Rows stored before inline parts were limited to raster images are not served
+    if (!resource || !isInlineImageType(resource.mimeType)) {
+      throw new NotFoundException(`Inline resource ${contentId} not found for email ${messageId}`);
+    }
+
+    return resource;
+  }
+
+  private sanitize(
+    html: string,
+    messageId: string,
+    remoteImages: RenderedEmail['remoteImages']
+  ): string {
+    const inlinePrefix = this.inlineResourceUrl(messageId, '');
+
+    // <style> blocks are dropped entirely, but inline styles can still load remote backgrounds
+    return sanitizeHtml(html, {
+      allowedTags: sanitizeHtml.defaults.allowedTags.concat(['img', 'font', 'center', 'u', 's']),
+      allowedAttributes: {
+        '*': ['style', 'align', 'valign', 'width', 'height', 'bgcolor', 'color', 'dir', 'title'],
+        a: ['href', 'name', 'target', 'rel'],
+        img: ['src', 'alt', 'width', 'height', 'title', 'data-remote-src'],
+        font: ['face', 'size', 'color'],
+        table: ['border', 'cellpadding', 'cellspacing'],
+        td: ['colspan', 'rowspan'],
+        th: ['colspan', 'rowspan'],
+      },
+      allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+      allowedSchemesByTag: { img: ['http', 'https', 'data'] },
+      transformTags: {
+        // Runs after the tag-specific transforms, on attribute values the parser has already decoded
+        '*': (tagName, attribs) => ({ tagName, attribs: withoutCssResources(attribs) }),
+        a: (tagName, attribs) => ({
+          tagName,
+          attribs: { ...attribs, target: '_blank', rel: 'noopener noreferrer' },
+        }),
+        img: (tagName, attribs) => {
+          const { src = '', ...rest } = attribs;
+
+          if (src.startsWith(inlinePrefix) || src.startsWith('data:')) {
+            return { tagName, attribs: { ...rest, src } };
+          }
+
+          if (!isRemoteUrl(src)) {
+            return { tagName, attribs: rest };
+          }
+
+          if (remoteImages.mode === 'proxy') {
+            remoteImages.proxied++;
+            const url = src.trim().startsWith('//') ? `https:${src.trim()}` : src.trim();
+            return { tagName, attribs: { ...rest, src: this.imageProxy.proxyUrl(url) } };
+          }
+
+          remoteImages.blocked++;
+          return { tagName, attribs: { ...rest, 'data-remote-src': src } };
+        },
+      },
+    });
+  }
+
+  private inlineResourceUrl(messageId: string, contentId: string): string {
+    const baseUrl = (process.env.APP_BASE_URL || '').replace(/\/+$/, '');
+    return `${baseUrl}/gmail/emails/${encodeURIComponent(messageId)}/inline/${encodeURIComponent(contentId)}`;
+  }
+}
@@ -0,0 +1,71 @@
+import { EmailSearchService } from './email-search.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma } from '../../generated/prisma';
+import { parseSearchQuery } from './search-query';
+import { encodeCursor, parseListParams } from './list-query';
+
+describe('EmailSearchService', () => {
+  const prisma = {
+    $queryRaw: jest.fn(),
+    email: { findMany: jest.fn() },
+  };
+  const service = new EmailSearchService(prisma as unknown as PrismaService);
+
+  const hit = (id: string, date: string) => ({
+    id,
+    date: new Date(date),
+    subjectHighlight: `<mark>${id}</mark>`,
+    bodyHighlight: '',
+  });
+
+  // $queryRaw is called as a tagged template, so rebuild the query it was given
+  const queryAt = (index: number): Prisma.Sql => {
+    const [strings, ...values] = prisma.$queryRaw.mock.calls[index] as [TemplateStringsArray, ...unknown[]];
+    return Prisma.sql(strings, ...values);
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.email.findMany.mockImplementation(({ where }: { where: { id: { in: string[] } } }) =>
+      Promise.resolve(where.id.in.map((id) => ({ id }))),
+    );
+  });
+
+  it('pages with the listing cursor and filters by account', async () => {
+    const cursor = encodeCursor({ id: 'e0' }, new Date('2024-03-01'), 'newest');
+    prisma.$queryRaw.mockResolvedValueOnce([hit('e1', '2024-02-01'), hit('e2', '2024-01-01')]);
+
+    const result = await service.search(
+      parseSearchQuery('report'),
+      parseListParams({ limit: 1, cursor }, 10),
+      'account-1',
+    );
+
+    const sql = queryAt(0);
+    expect(sql.sql).toContain('e."accountId" = ?');
+    expect(sql.sql).toMatch(/\(e\."date", e\."id"\) < \(\?, \?\)/);
+    expect(sql.values).toEqual(expect.arrayContaining(['account-1', new Date('2024-03-01'), 'e0', 2]));
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+
+    expect(result.emails).toEqual([{ id: 'e1', highlights: { subject: '<mark>e1</mark>', body: '' } }]);
+    expect(result.pagination).toEqual({
+      limit: 1,
+      sort: 'newest',
+      nextCursor: encodeCursor({ id: 'e1' }, new Date('2024-02-01'), 'newest'),
+    });
+  });
+
+  it('counts every match only when asked to', async () => {
+    prisma.$queryRaw.mockResolvedValueOnce([hit('e1', '2024-02-01')]).mockResolvedValueOnce([{ total: 1 }]);
+
+    const result = await service.search(
+      parseSearchQuery('from:alice'),
+      parseListParams({ sort: 'oldest', includeTotal: true }, 10),
+    );
+
+    const sql = queryAt(0);
+    expect(sql.sql).not.toContain('accountId');
+    expect(sql.sql).toContain('ORDER BY e."date" ASC, e."id" ASC');
+    expect(result.pagination).toEqual({ limit: 10, sort: 'oldest', nextCursor: null, total: 1 });
+  });
+});
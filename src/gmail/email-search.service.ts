@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma } from '../../generated/prisma';
+import { ParsedSearchQuery } from './search-query';
+import { ListParams, toKeysetPage } from './list-query';
+
+const SEARCH_CONFIG = 'english';
+// Must stay identical to the expression of Email_search_idx (prisma/sql/email_search_index.sql)
+const SEARCH_DOCUMENT = Prisma.sql`(
+  setweight(to_tsvector('english', coalesce("subject", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("sender", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("bodyText", '')), 'C')
+)`;
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10';
+const PLAIN_SNIPPET_LENGTH = 200;
+
+interface SearchHit {
+  id: string;
+  date: Date;
+  subjectHighlight: string;
+  bodyHighlight: string;
+}
+
+const likePattern = (value: string): string => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+
+@Injectable()
+export class EmailSearchService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Pages like /gmail/emails: keyset on (date, id) in the requested sort order
+  async search(query: ParsedSearchQuery, params: ListParams, accountId?: string) {
+    const tsQuery = query.text
+      ? Prisma.sql`websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${query.text})`
+      : null;
+    const where = this.buildWhere(query, tsQuery, accountId);
+    const direction = params.sort === 'newest' ? Prisma.sql`DESC` : Prisma.sql`ASC`;
+    const pastCursor = params.cursor
+      ? Prisma.sql`AND (e."date", e."id") ${params.sort === 'newest' ? Prisma.sql`<` : Prisma.sql`>`} (${params.cursor.date}, ${params.cursor.id})`
+      : Prisma.empty;
+
+    const [hits, totalRows] = await Promise.all([
+      this.prisma.$queryRaw<SearchHit[]>`
+        SELECT
+          e."id",
+          e."date",
+          ${this.highlight(Prisma.sql`e."subject"`, tsQuery)} AS "subjectHighlight",
+          ${this.highlight(Prisma.sql`e."bodyText"`, tsQuery)} AS "bodyHighlight"
+        FROM "Email" e
+        WHERE ${where} ${pastCursor}
+        ORDER BY e."date" ${direction}, e."id" ${direction}
+        LIMIT ${params.limit + 1}
+      `,
+      params.includeTotal
+        ? this.prisma.$queryRaw<[{ total: number }]>`
+            SELECT count(*)::int AS "total" FROM "Email" e WHERE ${where}
+          `
+        : undefined,
+    ]);
+
+    const page = toKeysetPage(hits, params, (hit) => hit.date);
+
+    const emails = await this.prisma.email.findMany({
+      where: { id: { in: page.items.map((hit) => hit.id) } },
+      omit: { headers: true },
+      include: {
+        attachments: {
+          select: {
+            id: true,
+            fileName: true,
+            mimeType: true,
+            size: true,
+            storageProvider: true,
+            storageKey: true,
+            status: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+    const emailsById = new Map(emails.map((email) => [email.id, email]));
+
+    return {
+      emails: page.items.flatMap((hit) => {
+        const email = emailsById.get(hit.id);
+        return email
+          ? [{ ...email, highlights: { subject: hit.subjectHighlight, body: hit.bodyHighlight } }]
+          : [];
+      }),
+      pagination: {
+        limit: params.limit,
+        sort: params.sort,
+        nextCursor: page.nextCursor,
+        ...(totalRows && { total: totalRows[0].total }),
+      },
+    };
+  }
+
+  private buildWhere(query: ParsedSearchQuery, tsQuery: Prisma.Sql | null, accountId?: string): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [Prisma.sql`e."deletedAt" IS NULL`];
+
+    if (accountId) {
+      conditions.push(Prisma.sql`e."accountId" = ${accountId}`);
+    }
+
+    if (tsQuery) {
+      conditions.push(Prisma.sql`${SEARCH_DOCUMENT} @@ ${tsQuery}`);
+    }
+
+    for (const from of query.from) {
+      conditions.push(Prisma.sql`e."sender" ILIKE ${likePattern(from)}`);
+    }
+
+    for (const to of query.to) {
+      const pattern = likePattern(to);
+      conditions.push(
+        Prisma.sql`(e."recipients" ILIKE ${pattern} OR e."cc" ILIKE ${pattern} OR e."bcc" ILIKE ${pattern})`
+      );
+    }
+
+    for (const subject of query.subject) {
+      conditions.push(Prisma.sql`e."subject" ILIKE ${likePattern(subject)}`);
+    }
+
+    if (query.hasAttachment) {
+      conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM "Attachment" a WHERE a."emailId" = e."id")`);
+    }
+
+    for (const filename of query.filenames) {
+      conditions.push(
+        Prisma.sql`EXISTS (SELECT 1 FROM "Attachment" a WHERE a."emailId" = e."id" AND a."fileName" ILIKE ${likePattern(filename)})`
+      );
+    }
+
+    if (query.after) {
+      conditions.push(Prisma.sql`e."date" >= ${query.after}`);
+    }
+
+    if (query.before) {
+      conditions.push(Prisma.sql`e."date" < ${query.before}`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  private highlight(column: Prisma.Sql, tsQuery: Prisma.Sql | null): Prisma.Sql {
+    if (!tsQuery) {
+      return Prisma.sql`left(coalesce(${column}, ''), ${PLAIN_SNIPPET_LENGTH})`;
+    }
+
+    return Prisma.sql`ts_headline(${SEARCH_CONFIG}::regconfig, coalesce(${column}, ''), ${tsQuery}, ${HEADLINE_OPTIONS})`;
+  }
+}
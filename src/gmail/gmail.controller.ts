@@ -1,48 +1,103 @@
-import { Controller, Get, Param, Query, Logger } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Logger,
+  NotFoundException,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { EmailSearchService } from './email-search.service';
+import { ThreadService } from './thread.service';
+import { EmailRenderService } from './email-render.service';
+import { ImageProxyService } from './image-proxy.service';
+import { LabelService } from './label.service';
+import { AttachmentDedupService } from '../storage/attachment-dedup.service';
+import { AttachmentDownloadService, attachmentDisposition } from './attachment-download.service';
+import { AllowSignedUrl, AttachmentAccessGuard } from './attachment-access.guard';
+import { AttachmentRetryService } from './attachment-retry.service';
+import { parseSearchQuery } from './search-query';
+import { parseListParams, sortDirection, toKeysetPage } from './list-query';
+import {
+  attachmentCursorFilter,
+  buildAttachmentFilters,
+  buildEmailFilters,
+  emailCursorFilter,
+} from './list-filters';
+import { ListEmailsQueryDto } from './dto/list-emails-query.dto';
+import { ListAttachmentsQueryDto } from './dto/list-attachments-query.dto';
+import { SearchQueryDto } from './dto/search-query.dto';
+import { RenderQueryDto } from './dto/render-query.dto';
+import { ImageProxyQueryDto } from './dto/image-proxy-query.dto';
+import { LabelsQueryDto } from './dto/labels-query.dto';
+import { DuplicateReportQueryDto } from './dto/duplicate-report-query.dto';
+import { CreateSignedUrlDto } from './dto/create-signed-url.dto';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
 
 @Controller('gmail')
 export class GmailController {
   private readonly logger = new Logger(GmailController.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emailSearch: EmailSearchService,
+    private readonly threadService: ThreadService,
+    private readonly emailRender: EmailRenderService,
+    private readonly imageProxy: ImageProxyService,
+    private readonly labelService: LabelService,
+    private readonly attachmentDedup: AttachmentDedupService,
+    private readonly attachmentDownloads: AttachmentDownloadService,
+    private readonly attachmentRetries: AttachmentRetryService
+  ) {}
 
   @Get('emails')
-  async getEmails(
-    @Query('page') page: string = '1',
-    @Query('limit') limit: string = '10'
-  ) {
+  async getEmails(@Query() query: ListEmailsQueryDto) {
+    const params = parseListParams(query, 10);
+    const filters = buildEmailFilters(query);
+
     try {
-      const pageNum = parseInt(page) || 1;
-      const limitNum = parseInt(limit) || 10;
-      const skip = (pageNum - 1) * limitNum;
-
-      const emails = await this.prisma.email.findMany({
-        skip,
-        take: limitNum,
-        orderBy: { date: 'desc' },
-        include: {
-          attachments: {
-            select: {
-              id: true,
-              fileName: true,
-              mimeType: true,
-              driveLink: true,
-              createdAt: true,
+      const direction = sortDirection(params.sort);
+      const [rows, total] = await Promise.all([
+        this.prisma.email.findMany({
+          where: { AND: [...filters, emailCursorFilter(params)] },
+          take: params.limit + 1,
+          orderBy: [{ date: direction }, { id: direction }],
+          omit: { headers: true },
+          include: {
+            attachments: {
+              select: {
+                id: true,
+                fileName: true,
+                mimeType: true,
+                size: true,
+                storageProvider: true,
+                storageKey: true,
+                status: true,
+                createdAt: true,
+              },
             },
           },
-        },
-      });
+        }),
+        params.includeTotal ? this.prisma.email.count({ where: { AND: filters } }) : undefined,
+      ]);
 
-      const total = await this.prisma.email.count();
+      const page = toKeysetPage(rows, params, (email) => email.date);
 
       return {
-        emails,
+        emails: page.items,
         pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          pages: Math.ceil(total / limitNum),
+          limit: params.limit,
+          sort: params.sort,
+          nextCursor: page.nextCursor,
+          ...(total !== undefined && { total }),
         },
       };
     } catch (error) {
@@ -51,62 +106,135 @@ export class GmailController {
     }
   }
 
+  @Get('labels')
+  async getLabels(@Query() { accountId }: LabelsQueryDto) {
+    return { labels: await this.labelService.listLabels(accountId) };
+  }
+
+  @Get('search')
+  async search(@Query() { q, accountId, ...listQuery }: SearchQueryDto) {
+    const query = parseSearchQuery(q);
+    const results = await this.emailSearch.search(query, parseListParams(listQuery, 10), accountId);
+    return { query: q, ...results };
+  }
+
+  @Get('emails/:messageId/render')
+  async renderEmail(
+    @Param('messageId') messageId: string,
+    @Query() { images = 'block' }: RenderQueryDto
+  ) {
+    return this.emailRender.render(messageId, images);
+  }
+
+  @Get('image-proxy')
+  @Header('Cache-Control', 'private, max-age=86400')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @Header('Content-Security-Policy', "default-src 'none'; sandbox")
+  async proxyImage(@Query() { url, sig }: ImageProxyQueryDto) {
+    const image = await this.imageProxy.fetchImage(url, sig);
+
+    return new StreamableFile(image.data, {
+      type: image.contentType,
+      length: image.data.length,
+      disposition: 'inline',
+    });
+  }
+
+  @Get('emails/:messageId/inline/:contentId')
+  @Header('Cache-Control', 'private, max-age=86400, immutable')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @Header('Content-Security-Policy', "default-src 'none'; sandbox")
+  async getInlineResource(
+    @Param('messageId') messageId: string,
+    @Param('contentId') contentId: string
+  ) {
+    const resource = await this.emailRender.getInlineResource(messageId, contentId);
+
+    return new StreamableFile(Buffer.from(resource.data), {
+      type: resource.mimeType,
+      length: resource.size,
+      disposition: 'inline',
+    });
+  }
+
   @Get('emails/:messageId')
   async getEmail(@Param('messageId') messageId: string) {
-    try {
-      const email = await this.prisma.email.findUnique({
-        where: { messageId },
-        include: {
-          attachments: true,
+    const email = await this.prisma.email.findFirst({
+      where: { messageId, deletedAt: null },
+      include: {
+        attachments: { omit: { driveLink: true } },
+        labels: {
+          select: {
+            label: {
+              select: { gmailId: true, name: true, type: true, textColor: true, backgroundColor: true },
+            },
+          },
         },
-      });
-
-      if (!email) {
-        throw new Error('Email not found');
-      }
+        inlineResources: {
+          select: {
+            contentId: true,
+            fileName: true,
+            mimeType: true,
+            size: true,
+          },
+        },
+      },
+    });
 
-      return email;
-    } catch (error) {
-      this.logger.error(`Failed to fetch email ${messageId}:`, error);
-      throw error;
+    if (!email) {
+      throw new NotFoundException(`Email ${messageId} not found`);
     }
+
+    return email;
+  }
+
+  @Get('threads')
+  async getThreads(@Query() { page = 1, limit = 10 }: PaginationQueryDto) {
+    return this.threadService.listThreads(page, limit);
+  }
+
+  @Get('threads/:threadId')
+  async getThread(@Param('threadId') threadId: string) {
+    return this.threadService.getThread(threadId);
   }
 
   @Get('attachments')
-  async getAttachments(
-    @Query('page') page: string = '1',
-    @Query('limit') limit: string = '20'
-  ) {
-    try {
-      const pageNum = parseInt(page) || 1;
-      const limitNum = parseInt(limit) || 20;
-      const skip = (pageNum - 1) * limitNum;
+  async getAttachments(@Query() query: ListAttachmentsQueryDto) {
+    const params = parseListParams(query, 20);
+    const filters = buildAttachmentFilters(query);
 
-      const attachments = await this.prisma.attachment.findMany({
-        skip,
-        take: limitNum,
-        orderBy: { createdAt: 'desc' },
-        include: {
-          email: {
-            select: {
-              messageId: true,
-              subject: true,
-              sender: true,
-              date: true,
+    try {
+      const direction = sortDirection(params.sort);
+      const [rows, total] = await Promise.all([
+        this.prisma.attachment.findMany({
+          where: { AND: [...filters, attachmentCursorFilter(params)] },
+          take: params.limit + 1,
+          orderBy: [{ createdAt: direction }, { id: direction }],
+          omit: { driveLink: true },
+          include: {
+            email: {
+              select: {
+                messageId: true,
+                threadId: true,
+                subject: true,
+                sender: true,
+                date: true,
+              },
             },
           },
-        },
-      });
+        }),
+        params.includeTotal ? this.prisma.attachment.count({ where: { AND: filters } }) : undefined,
+      ]);
 
-      const total = await this.prisma.attachment.count();
+      const page = toKeysetPage(rows, params, (attachment) => attachment.createdAt);
 
       return {
-        attachments,
+        attachments: page.items,
         pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          pages: Math.ceil(total / limitNum),
+          limit: params.limit,
+          sort: params.sort,
+          nextCursor: page.nextCursor,
+          ...(total !== undefined && { total }),
         },
       };
     } catch (error) {
@@ -115,16 +243,50 @@ export class GmailController {
     }
   }
 
+  @Get('attachments/duplicates')
+  async getDuplicateReport(@Query() { accountId, limit = 10 }: DuplicateReportQueryDto) {
+    return this.attachmentDedup.getDuplicateReport(accountId, limit);
+  }
+
+  @Get('attachments/:id/download')
+  @UseGuards(AttachmentAccessGuard)
+  @AllowSignedUrl()
+  @Header('Cache-Control', 'private, no-store')
+  async downloadAttachment(@Param('id', ParseUUIDPipe) id: string) {
+    const download = await this.attachmentDownloads.open(id);
+
+    return new StreamableFile(download.stream, {
+      type: download.mimeType,
+      length: download.size ?? undefined,
+      disposition: attachmentDisposition(download.fileName),
+    });
+  }
+
+  @Post('attachments/:id/signed-url')
+  @UseGuards(AttachmentAccessGuard)
+  @HttpCode(HttpStatus.OK)
+  async createSignedUrl(@Param('id', ParseUUIDPipe) id: string, @Body() { expiresIn }: CreateSignedUrlDto) {
+    return this.attachmentDownloads.createSignedUrl(id, expiresIn);
+  }
+
+  @Post('attachments/:id/retry')
+  @UseGuards(AttachmentAccessGuard)
+  @HttpCode(HttpStatus.OK)
+  async retryAttachment(@Param('id', ParseUUIDPipe) id: string) {
+    return this.attachmentRetries.retry(id);
+  }
+
   @Get('stats')
   async getStats() {
     try {
       const [emailCount, attachmentCount] = await Promise.all([
-        this.prisma.email.count(),
-        this.prisma.attachment.count(),
+        this.prisma.email.count({ where: { deletedAt: null } }),
+        this.prisma.attachment.count({ where: { email: { deletedAt: null } } }),
       ]);
 
       // Get recent activity
       const recentEmails = await this.prisma.email.findMany({
+        where: { deletedAt: null },
         take: 5,
         orderBy: { createdAt: 'desc' },
         select: {
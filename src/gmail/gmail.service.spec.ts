@@ -1,18 +1,675 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { google, gmail_v1 } from 'googleapis';
 import { GmailService } from './gmail.service';
+import {
+  AccountWithToken,
+  GoogleAuthService,
+} from '../auth/google-auth.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { AttachmentDedupService } from '../storage/attachment-dedup.service';
+import { AttachmentData, StoredObject } from '../storage/storage-provider';
+import { SyncQueueService } from '../sync/sync-queue.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { SyncProgress, SyncRunService } from '../sync/sync-run.service';
+import { ThreadService } from './thread.service';
+import { ContactsService } from '../contacts/contacts.service';
+import { LabelService } from './label.service';
 
 describe('GmailService', () => {
   let service: GmailService;
 
+  const prisma = {
+    account: { update: jest.fn() },
+    email: { updateMany: jest.fn(), findUnique: jest.fn(), create: jest.fn() },
+    attachment: { createManyAndReturn: jest.fn(), update: jest.fn() },
+    failedMessage: { upsert: jest.fn(), deleteMany: jest.fn() },
+  };
+  const syncRuns = {
+    saveProgress: jest.fn(),
+  };
+  const labelService = {
+    syncLabels: jest.fn(),
+    relabelMessage: jest.fn(),
+  };
+  const googleAuthService = {
+    getAuthenticatedClient: jest.fn(),
+    getConnectedAccounts: jest.fn(),
+  };
+  const leaderElection = {
+    runExclusive: jest.fn((_name: string, _ttl: number, task: () => Promise<void>) => task()),
+  };
+  const storageProvider = {
+    backend: 'drive',
+    uploadAttachments: jest.fn(),
+  };
+  const storageService = {
+    getProvider: () => storageProvider,
+  };
+  const attachmentDedup = {
+    findStoredBlobs: jest.fn(),
+  };
+  const gmail = {
+    users: {
+      history: { list: jest.fn() },
+      messages: { list: jest.fn(), get: jest.fn(), attachments: { get: jest.fn() } },
+      getProfile: jest.fn(),
+    },
+  };
+
+  const account: AccountWithToken = {
+    id: 'account-1',
+    googleId: '1234567890',
+    email: 'alice@example.com',
+    historyId: '1000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    watchTopicName: null,
+    watchLabelIds: [],
+    watchLabelFilterAction: 'include',
+    watchExpiration: null,
+    resyncHistoryId: null,
+    resyncPageToken: null,
+    resyncStartedAt: null,
+    syncLockedBy: null,
+    syncLockedUntil: null,
+    labelsSyncedAt: null,
+    skipSpamTrashDrafts: true,
+    syncMaxMessages: null,
+    syncAfter: null,
+    syncQuery: null,
+    syncLabelAllowlist: [],
+    syncLabelDenylist: [],
+    processAttachments: true,
+    storageProvider: null,
+    token: {
+      id: 'token-1',
+      accountId: 'account-1',
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      expiryDate: BigInt(Date.now() + 3600000),
+      createdAt: new Date(),
+    },
+  };
+
   beforeEach(async () => {
+    jest.resetAllMocks();
+    leaderElection.runExclusive.mockImplementation((_name, _ttl, task) => task());
+    jest
+      .spyOn(google, 'gmail')
+      .mockReturnValue(gmail as unknown as gmail_v1.Gmail);
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [GmailService],
+      providers: [
+        GmailService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: GoogleAuthService, useValue: googleAuthService },
+        { provide: StorageService, useValue: storageService },
+        { provide: AttachmentDedupService, useValue: attachmentDedup },
+        { provide: SyncQueueService, useValue: {} },
+        { provide: LeaderElectionService, useValue: leaderElection },
+        { provide: SyncRunService, useValue: syncRuns },
+        { provide: ThreadService, useValue: {} },
+        { provide: ContactsService, useValue: {} },
+        { provide: LabelService, useValue: labelService },
+      ],
     }).compile();
 
     service = module.get<GmailService>(GmailService);
   });
 
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('history sync', () => {
+    it('walks every page and applies each change type', async () => {
+      const processMessage = jest
+        .spyOn(service, 'processMessage')
+        .mockResolvedValue('stored');
+      prisma.email.updateMany.mockResolvedValue({ count: 1 });
+
+      gmail.users.history.list
+        .mockResolvedValueOnce({
+          data: {
+            history: [
+              { messagesAdded: [{ message: { id: 'm1' } }] },
+              { messagesDeleted: [{ message: { id: 'm0' } }] },
+            ],
+            historyId: '1100',
+            nextPageToken: 'page-2',
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            history: [
+              { messagesAdded: [{ message: { id: 'm2' } }] },
+              {
+                labelsRemoved: [
+                  { message: { id: 'm1', labelIds: ['INBOX'] }, labelIds: ['UNREAD'] },
+                ],
+              },
+            ],
+            historyId: '1200',
+          },
+        });
+
+      await service.fetchEmails(account);
+
+      expect(gmail.users.history.list).toHaveBeenCalledTimes(2);
+      expect(gmail.users.history.list).toHaveBeenLastCalledWith(
+        expect.objectContaining({ startHistoryId: '1000', pageToken: 'page-2' }),
+      );
+      expect(processMessage.mock.calls.map(([, id]) => id)).toEqual(['m1', 'm2']);
+      expect(prisma.email.updateMany).toHaveBeenCalledWith({
+        where: { accountId: 'account-1', messageId: 'm0', deletedAt: null },
+        data: { deletedAt: expect.any(Date) as Date },
+      });
+      expect(prisma.email.updateMany).toHaveBeenCalledWith({
+        where: { accountId: 'account-1', messageId: 'm1' },
+        data: { labelIds: ['INBOX'] },
+      });
+      expect(labelService.relabelMessage).toHaveBeenCalledWith('account-1', 'm1', ['INBOX']);
+      expect(labelService.syncLabels).toHaveBeenCalledWith(gmail, account);
+      expect(prisma.account.update).toHaveBeenCalledTimes(1);
+      expect(prisma.account.update).toHaveBeenCalledWith({
+        where: { id: 'account-1' },
+        data: { historyId: '1200' },
+      });
+    });
+
+    it('stores messages that a label change brings into scope', async () => {
+      const processMessage = jest
+        .spyOn(service, 'processMessage')
+        .mockResolvedValue('stored');
+      prisma.email.updateMany.mockResolvedValue({ count: 0 });
+
+      gmail.users.history.list.mockResolvedValueOnce({
+        data: {
+          history: [
+            {
+              labelsRemoved: [
+                { message: { id: 'm1', labelIds: ['INBOX'] }, labelIds: ['SPAM'] },
+                { message: { id: 'm2', labelIds: ['INBOX'] }, labelIds: ['UNREAD'] },
+              ],
+            },
+            {
+              labelsAdded: [
+                { message: { id: 'm3', labelIds: ['TRASH'] }, labelIds: ['TRASH'] },
+              ],
+            },
+          ],
+          historyId: '1100',
+        },
+      });
+
+      await service.fetchEmails(account);
+
+      expect(processMessage.mock.calls).toEqual([[gmail, 'm1', account, undefined, true]]);
+      expect(labelService.relabelMessage).not.toHaveBeenCalled();
+    });
+
+    it('lists labels again only when the last label sync is old enough', async () => {
+      jest.spyOn(service, 'processMessage').mockResolvedValue('stored');
+      gmail.users.history.list.mockResolvedValue({ data: { history: [], historyId: '1000' } });
+
+      await service.fetchEmails({ ...account, labelsSyncedAt: new Date(Date.now() - 5 * 60 * 1000) });
+      expect(labelService.syncLabels).not.toHaveBeenCalled();
+
+      await service.fetchEmails({ ...account, labelsSyncedAt: new Date(Date.now() - 2 * 60 * 60 * 1000) });
+      expect(labelService.syncLabels).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the checkpoint when a change fails to apply', async () => {
+      jest
+        .spyOn(service, 'processMessage')
+        .mockResolvedValueOnce('stored')
+        .mockResolvedValueOnce('failed');
+
+      gmail.users.history.list.mockResolvedValueOnce({
+        data: {
+          history: [
+            { messagesAdded: [{ message: { id: 'm1' } }] },
+            { messagesAdded: [{ message: { id: 'm2' } }] },
+          ],
+          historyId: '1100',
+        },
+      });
+
+      await service.fetchEmails(account);
+
+      expect(prisma.account.update).not.toHaveBeenCalled();
+    });
+
+    it('records failed messages and stops holding the checkpoint once one keeps failing', async () => {
+      prisma.email.findUnique.mockRejectedValue(new Error('Connection reset'));
+      prisma.failedMessage.upsert.mockResolvedValueOnce({ attempts: 5 });
+
+      gmail.users.history.list.mockResolvedValueOnce({
+        data: { history: [{ messagesAdded: [{ message: { id: 'm1' } }] }], historyId: '1100' },
+      });
+
+      await service.fetchEmails(account);
+
+      expect(prisma.failedMessage.upsert).toHaveBeenCalledWith({
+        where: { accountId_messageId: { accountId: 'account-1', messageId: 'm1' } },
+        create: { accountId: 'account-1', messageId: 'm1', lastError: 'Connection reset' },
+        update: { attempts: { increment: 1 }, lastError: 'Connection reset' },
+      });
+      expect(prisma.account.update).toHaveBeenCalledWith({
+        where: { id: 'account-1' },
+        data: { historyId: '1100' },
+      });
+      expect(prisma.failedMessage.deleteMany).toHaveBeenCalledWith({
+        where: { accountId: 'account-1', attempts: { lt: 5 } },
+      });
+    });
+
+    it('records progress for the sync run after each page', async () => {
+      jest
+        .spyOn(service, 'storeMessage' as keyof GmailService)
+        .mockResolvedValueOnce('stored' as never)
+        .mockResolvedValueOnce('skipped' as never);
+
+      gmail.users.history.list.mockResolvedValueOnce({
+        data: {
+          history: [
+            { messagesAdded: [{ message: { id: 'm1' } }] },
+            { messagesAdded: [{ message: { id: 'm2' } }] },
+          ],
+          historyId: '1100',
+        },
+      });
+
+      const progress: SyncProgress = {
+        runId: 'run-1',
+        type: 'incremental',
+        messagesSeen: 0,
+        messagesStored: 0,
+        messagesSkipped: 0,
+        messagesFailed: 0,
+        attachmentsUploaded: 0,
+      };
+      await service.fetchEmails(account, false, progress);
+
+      expect(syncRuns.saveProgress).toHaveBeenCalledWith({
+        ...progress,
+        messagesSeen: 2,
+        messagesStored: 1,
+        messagesSkipped: 1,
+      });
+    });
+  });
+
+  describe('initial sync', () => {
+    it('fails the run while messages are still failing, so it is retried', async () => {
+      const setupGmailWatch = jest.spyOn(service, 'setupGmailWatch').mockResolvedValue();
+      jest
+        .spyOn(service, 'processMessage')
+        .mockResolvedValueOnce('stored')
+        .mockResolvedValueOnce('failed')
+        .mockResolvedValueOnce('abandoned');
+      gmail.users.messages.list.mockResolvedValueOnce({
+        data: { messages: [{ id: 'm1' }, { id: 'm2' }, { id: 'm3' }] },
+      });
+
+      await expect(service.fetchEmails({ ...account, historyId: null }, true)).rejects.toThrow(
+        '1 message(s) failed to sync',
+      );
+      expect(setupGmailWatch).toHaveBeenCalled();
+    });
+
+    it('fails the run instead of starting the watch when messages cannot be listed', async () => {
+      const setupGmailWatch = jest.spyOn(service, 'setupGmailWatch').mockResolvedValue();
+      const processMessage = jest.spyOn(service, 'processMessage');
+      gmail.users.messages.list.mockRejectedValueOnce(
+        Object.assign(new Error('Bad Request'), { status: 400 }),
+      );
+
+      await expect(service.fetchEmails({ ...account, historyId: null }, true)).rejects.toThrow('Bad Request');
+      expect(setupGmailWatch).not.toHaveBeenCalled();
+      expect(processMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('message ingestion', () => {
+    const draft = {
+      data: {
+        id: 'm1',
+        threadId: 't1',
+        labelIds: ['DRAFT'],
+        payload: { mimeType: 'text/plain', headers: [], body: { data: '' } },
+      },
+    };
+
+    it('skips spam, trash and drafts when the account opts out of them', async () => {
+      prisma.email.findUnique.mockResolvedValueOnce(null);
+      gmail.users.messages.get.mockResolvedValueOnce(draft);
+
+      await expect(
+        service.processMessage(gmail as unknown as gmail_v1.Gmail, 'm1', account),
+      ).resolves.toBe('skipped');
+      expect(prisma.email.create).not.toHaveBeenCalled();
+    });
+
+    it('stores drafts when the account keeps them', async () => {
+      prisma.email.findUnique.mockResolvedValueOnce(null);
+      gmail.users.messages.get.mockResolvedValueOnce(draft);
+
+      await service.processMessage(gmail as unknown as gmail_v1.Gmail, 'm1', {
+        ...account,
+        skipSpamTrashDrafts: false,
+      });
+
+      expect(prisma.email.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('attachment processing', () => {
+    const attachmentPart = (filename: string, text: string) => ({
+      filename,
+      mimeType: 'application/pdf',
+      headers: [],
+      body: { data: Buffer.from(text).toString('base64url') },
+    });
+    const message = {
+      id: 'm1',
+      payload: {
+        mimeType: 'multipart/mixed',
+        headers: [{ name: 'Subject', value: 'Invoices' }],
+        parts: [
+          attachmentPart('invoice.pdf', 'invoice'),
+          attachmentPart('invoice (1).pdf', 'invoice'),
+          attachmentPart('terms.pdf', 'terms'),
+          attachmentPart('contract.pdf', 'contract'),
+        ],
+      },
+    };
+    const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+    const toBlob = (attachment: AttachmentData): StoredObject => ({
+      provider: 'drive',
+      key: `file-${attachment.fileName}`,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      sha256: attachment.sha256,
+    });
+    const updates = () =>
+      prisma.attachment.update.mock.calls.map(
+        ([{ where, data }]: [{ where: { id: string }; data: Record<string, unknown> }]) => [
+          where.id,
+          data.status,
+          data.storageKey ?? data.lastError,
+        ],
+      );
+
+    beforeEach(() => {
+      attachmentDedup.findStoredBlobs.mockResolvedValue(new Map());
+      prisma.attachment.createManyAndReturn.mockImplementation(
+        ({ data }: { data: { partId: string; fileName: string }[] }) =>
+          Promise.resolve(
+            data.map(({ partId, fileName }) => ({ id: `att-${partId}`, partId, fileName, attempts: 0 })),
+          ),
+      );
+    });
+
+    it('records each attachment as pending before downloading it', async () => {
+      storageProvider.uploadAttachments.mockImplementationOnce(
+        (_context: unknown, attachments: AttachmentData[]) =>
+          Promise.resolve(attachments.map((attachment) => ({ attachment, object: toBlob(attachment) }))),
+      );
+
+      await service.processAttachments(gmail as unknown as gmail_v1.Gmail, message, 'email-1', account);
+
+      const [{ data }] = prisma.attachment.createManyAndReturn.mock.calls[0] as [
+        { data: Record<string, unknown>[] },
+      ];
+      expect(data[0]).toEqual({
+        emailId: 'email-1',
+        accountId: 'account-1',
+        partId: '0',
+        fileName: 'invoice.pdf',
+        mimeType: 'application/pdf',
+        size: null,
+        status: 'pending',
+        storageProvider: 'drive',
+      });
+      expect(data).toHaveLength(4);
+    });
+
+    it('uploads each new file once and reuses blobs the account already stored', async () => {
+      const storedTerms: StoredObject = {
+        provider: 'drive',
+        key: 'existing-terms',
+        fileName: 'terms.pdf',
+        mimeType: 'application/pdf',
+        size: 5,
+        sha256: sha256('terms'),
+      };
+      let uploadedContents: string[] = [];
+
+      attachmentDedup.findStoredBlobs.mockResolvedValueOnce(new Map([[storedTerms.sha256, storedTerms]]));
+      storageProvider.uploadAttachments.mockImplementationOnce(
+        async (_context: unknown, attachments: AttachmentData[]) => {
+          uploadedContents = await Promise.all(
+            attachments.map((attachment) => readFile(attachment.filePath, 'utf8')),
+          );
+          return attachments.map((attachment) => ({ attachment, object: toBlob(attachment) }));
+        },
+      );
+
+      await expect(
+        service.processAttachments(gmail as unknown as gmail_v1.Gmail, message, 'email-1', account),
+      ).resolves.toBe(4);
+
+      const [context, uploaded] = storageProvider.uploadAttachments.mock.calls[0] as [
+        unknown,
+        AttachmentData[],
+      ];
+      expect(context).toEqual(
+        expect.objectContaining({ accountId: 'account-1', messageId: 'm1', emailSubject: 'Invoices' }),
+      );
+      expect(uploaded.map(({ partId, fileName, size, sha256 }) => [partId, fileName, size, sha256])).toEqual([
+        ['0', 'invoice.pdf', 7, sha256('invoice')],
+        ['3', 'contract.pdf', 8, sha256('contract')],
+      ]);
+      expect(uploadedContents).toEqual(['invoice', 'contract']);
+      expect(updates()).toEqual([
+        ['att-0', 'uploaded', 'file-invoice.pdf'],
+        ['att-1', 'uploaded', 'file-invoice.pdf'],
+        ['att-2', 'uploaded', 'existing-terms'],
+        ['att-3', 'uploaded', 'file-contract.pdf'],
+      ]);
+    });
+
+    it('marks failed uploads for a retry with backoff', async () => {
+      storageProvider.uploadAttachments.mockImplementationOnce(
+        (_context: unknown, attachments: AttachmentData[]) =>
+          Promise.resolve(
+            attachments.map((attachment) =>
+              attachment.fileName === 'contract.pdf'
+                ? { attachment, error: 'Drive quota exceeded' }
+                : { attachment, object: toBlob(attachment) },
+            ),
+          ),
+      );
+
+      await expect(
+        service.processAttachments(gmail as unknown as gmail_v1.Gmail, message, 'email-1', account),
+      ).resolves.toBe(3);
+
+      expect(updates()[3]).toEqual(['att-3', 'failed', 'Drive quota exceeded']);
+      const [{ data }] = prisma.attachment.update.mock.calls[3] as [
+        { data: { attempts: number; nextAttemptAt: Date } },
+      ];
+      expect(data.attempts).toBe(1);
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('counts an attempt for every attachment when processing fails unexpectedly', async () => {
+      storageProvider.uploadAttachments.mockRejectedValueOnce(new Error('Connection reset'));
+
+      await expect(
+        service.processAttachments(gmail as unknown as gmail_v1.Gmail, message, 'email-1', account),
+      ).resolves.toBe(0);
+
+      expect(updates()).toEqual(
+        ['att-0', 'att-1', 'att-2', 'att-3'].map((id) => [id, 'failed', 'Connection reset']),
+      );
+      const calls = prisma.attachment.update.mock.calls as [{ data: { attempts: number; nextAttemptAt: Date } }][];
+      expect(calls.every(([{ data }]) => data.attempts === 1 && data.nextAttemptAt !== null)).toBe(true);
+    });
+
+    it('skips attachments over the size limit without downloading them', async () => {
+      const oversized = {
+        id: 'm2',
+        payload: {
+          mimeType: 'multipart/mixed',
+          headers: [],
+          parts: [
+            {
+              partId: '1',
+              filename: 'backup.zip',
+              mimeType: 'application/zip',
+              headers: [],
+              body: { attachmentId: 'a1', size: 60 * 1024 * 1024 },
+            },
+          ],
+        },
+      };
+
+      await expect(
+        service.processAttachments(gmail as unknown as gmail_v1.Gmail, oversized, 'email-2', account),
+      ).resolves.toBe(0);
+
+      expect(gmail.users.messages.attachments.get).not.toHaveBeenCalled();
+      expect(storageProvider.uploadAttachments).not.toHaveBeenCalled();
+      expect(updates()).toEqual([['att-1', 'skipped', expect.stringContaining('byte limit')]]);
+    });
+
+    it('stops retrying attachments of a message deleted from Gmail', async () => {
+      googleAuthService.getAuthenticatedClient.mockResolvedValue({});
+      gmail.users.messages.get.mockRejectedValueOnce(
+        Object.assign(new Error('Requested entity was not found.'), { status: 404 }),
+      );
+
+      await expect(
+        service.retryAttachments(account, 'm1', [{ id: 'att-0', partId: '0', fileName: 'invoice.pdf', attempts: 2 }]),
+      ).resolves.toBe(0);
+
+      expect(prisma.attachment.update).toHaveBeenCalledWith({
+        where: { id: 'att-0' },
+        data: {
+          status: 'failed',
+          attempts: 3,
+          lastError: 'Message no longer exists in Gmail',
+          nextAttemptAt: null,
+        },
+      });
+    });
+  });
+
+  describe('watch renewal', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      delete process.env.GOOGLE_PUBSUB_TOPIC;
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('renews expiring watches and starts missing ones when a topic is configured', async () => {
+      const renewGmailWatch = jest.spyOn(service, 'renewGmailWatch').mockResolvedValue();
+      const withTopic = { ...account, watchTopicName: 'projects/p/topics/gmail' };
+      const expiring = { ...withTopic, id: 'expiring', watchExpiration: BigInt(Date.now() + 60 * 60 * 1000) };
+      const current = { ...withTopic, id: 'current', watchExpiration: BigInt(Date.now() + 72 * 60 * 60 * 1000) };
+      const missing = { ...withTopic, id: 'missing', watchExpiration: null };
+      const withoutTopic = { ...account, id: 'no-topic', watchExpiration: null };
+      googleAuthService.getConnectedAccounts.mockResolvedValue([expiring, current, missing, withoutTopic]);
+
+      await service.renewExpiringWatches();
+
+      expect(renewGmailWatch.mock.calls.map(([renewed]) => renewed.id)).toEqual(['expiring', 'missing']);
+    });
+  });
+
+  describe('expired history recovery', () => {
+    const notFound = Object.assign(new Error('Requested entity was not found.'), {
+      status: 404,
+    });
+
+    it('starts a resumable full resync when the history ID has expired', async () => {
+      const processMessage = jest
+        .spyOn(service, 'processMessage')
+        .mockResolvedValue('stored');
+
+      gmail.users.history.list.mockRejectedValueOnce(notFound);
+      gmail.users.getProfile.mockResolvedValueOnce({ data: { historyId: '5000' } });
+      prisma.account.update.mockImplementation(({ data }) =>
+        Promise.resolve({ ...account, ...data }),
+      );
+      gmail.users.messages.list
+        .mockResolvedValueOnce({
+          data: { messages: [{ id: 'm1' }, { id: 'm2' }], nextPageToken: 'page-2' },
+        })
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'm3' }] } });
+
+      await service.fetchEmails(account);
+
+      expect(processMessage.mock.calls.map(([, id]) => id)).toEqual(['m1', 'm2', 'm3']);
+      expect(prisma.account.update).toHaveBeenCalledWith({
+        where: { id: 'account-1' },
+        data: { resyncPageToken: 'page-2' },
+      });
+      expect(prisma.account.update).toHaveBeenLastCalledWith({
+        where: { id: 'account-1' },
+        data: {
+          historyId: '5000',
+          resyncHistoryId: null,
+          resyncPageToken: null,
+          resyncStartedAt: null,
+        },
+      });
+    });
+
+    it('resumes an interrupted resync from the stored page token', async () => {
+      jest.spyOn(service, 'processMessage').mockResolvedValue('stored');
+      gmail.users.messages.list.mockResolvedValueOnce({
+        data: { messages: [{ id: 'm9' }] },
+      });
+
+      await service.fetchEmails({
+        ...account,
+        resyncHistoryId: '5000',
+        resyncPageToken: 'page-7',
+        resyncStartedAt: new Date(),
+      });
+
+      expect(gmail.users.history.list).not.toHaveBeenCalled();
+      expect(gmail.users.messages.list).toHaveBeenCalledWith(
+        expect.objectContaining({ pageToken: 'page-7' }),
+      );
+    });
+
+    it('surfaces other history errors instead of falling back to a message list', async () => {
+      gmail.users.history.list.mockRejectedValueOnce(
+        Object.assign(new Error('Bad Request'), { status: 400 }),
+      );
+
+      await expect(service.fetchEmails(account)).rejects.toThrow('Bad Request');
+
+      expect(gmail.users.getProfile).not.toHaveBeenCalled();
+      expect(gmail.users.messages.list).not.toHaveBeenCalled();
+      expect(prisma.account.update).not.toHaveBeenCalled();
+    });
+  });
 });
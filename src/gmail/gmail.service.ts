@@ -1,240 +1,788 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { google, gmail_v1 } from "googleapis";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
 import { PrismaService } from "../prisma/prisma.service";
-import { Cron } from "@nestjs/schedule";
+import { Cron, CronExpression } from "@nestjs/schedule";
 import { CreateEmailDto } from "../email/dto/create-email.dto";
-import { Token } from "generated/prisma";
-import { GoogleAuthService } from "../auth/google-auth.service";
-import { DriveService, AttachmentData, DriveUploadResult } from "../drive/drive.service";
+import { AccountWithToken, GoogleAuthService } from "../auth/google-auth.service";
+import { StorageService } from "../storage/storage.service";
+import { AttachmentDedupService } from "../storage/attachment-dedup.service";
+import { AttachmentData, StoredObject } from "../storage/storage-provider";
+import { getHttpStatus, withRetry } from "../common/google-api-errors";
+import { SyncQueueService } from "../sync/sync-queue.service";
+import { LeaderElectionService } from "../sync/leader-election.service";
+import { SyncProgress, SyncRunService } from "../sync/sync-run.service";
+import { parseMessageIds, ThreadService } from "./thread.service";
+import { ContactsService } from "../contacts/contacts.service";
+import { LabelService } from "./label.service";
+import {
+  buildListQuery,
+  entersScopeByLabels,
+  getListLabelIds,
+  getMaxMessages,
+  getOutOfScopeReason,
+  getWatchLabelFilter,
+  SyncScope,
+} from "./sync-scope";
+import { classifyEmail, getHeaderValue } from "./email-classifier";
+import {
+  AttachmentTooLargeError,
+  DEFAULT_MAX_ATTACHMENT_BYTES,
+  GmailAttachmentDecoder,
+  spoolToFile,
+} from "./attachment-spool";
+import { decodeEncodedWords } from "../mime/encoded-word";
+import {
+  extractMessageBody,
+  getContentId,
+  getInlineContentIds,
+  getPartFilename,
+  isAttachmentPart,
+  isInlinePart,
+} from "../mime/mime-part";
+import {
+  AttachmentStatus,
+  Prisma,
+  StorageBackend,
+  SyncJob,
+  SyncJobType,
+  SyncRunType,
+} from "../../generated/prisma";
 
 interface EmailHeader {
   name: string;
   value: string;
 }
 
+const WATCH_RENEWAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+const RESYNC_PAGE_SIZE = 500;
+const ATTACHMENT_MAX_ATTEMPTS = 5;
+const MESSAGE_MAX_ATTEMPTS = 5;
+const DEFAULT_LABEL_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_ATTACHMENT_RETRY_BASE_MS = 5 * 60 * 1000;
+const MAX_ATTACHMENT_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const detectedAttachmentSelect = {
+  id: true,
+  partId: true,
+  fileName: true,
+  attempts: true,
+} satisfies Prisma.AttachmentSelect;
+
+export type DetectedAttachment = Prisma.AttachmentGetPayload<{ select: typeof detectedAttachmentSelect }>;
+
+// 'abandoned' is a failure that no longer holds back the sync checkpoint
+export type MessageProcessResult = 'stored' | 'skipped' | 'failed' | 'abandoned';
+
+export interface GmailPushNotification {
+  emailAddress?: string;
+  historyId?: string | number;
+}
+
 @Injectable()
 export class GmailService {
   private logger = new Logger(GmailService.name);
+  private activeSyncJobs = 0;
+  private claimingSyncJobs = false;
+  private readonly maxAttachmentBytes = Number(process.env.ATTACHMENT_MAX_BYTES) || DEFAULT_MAX_ATTACHMENT_BYTES;
+  private readonly attachmentRetryBaseMs =
+    Number(process.env.ATTACHMENT_RETRY_BASE_MS) || DEFAULT_ATTACHMENT_RETRY_BASE_MS;
+  private readonly labelSyncIntervalMs = Number(process.env.LABEL_SYNC_INTERVAL_MS) || DEFAULT_LABEL_SYNC_INTERVAL_MS;
 
   constructor(
     private prisma: PrismaService,
     private googleAuthService: GoogleAuthService,
-    private driveService: DriveService
+    private storageService: StorageService,
+    private attachmentDedup: AttachmentDedupService,
+    private syncQueue: SyncQueueService,
+    private leaderElection: LeaderElectionService,
+    private syncRuns: SyncRunService,
+    private threadService: ThreadService,
+    private contactsService: ContactsService,
+    private labelService: LabelService
   ) {}
 
   @Cron("*/30 * * * * *") 
   async handleCron() {
-    this.logger.log('Running scheduled Gmail fetch for all users...');
+    await this.leaderElection.runExclusive('gmail-scheduled-sync', 90 * 1000, async () => {
+      this.logger.log('Queueing scheduled Gmail fetch for all users...');
 
-    await this.googleAuthService.refreshAllExpiredTokens();
+      await this.googleAuthService.refreshAllExpiredTokens();
+      
+      const accounts = await this.googleAuthService.getConnectedAccounts();
     
-    const tokens = await this.prisma.token.findMany();
-  
-    for (const token of tokens) {
-      await this.fetchEmails(token);
+      for (const account of accounts) {
+        await this.syncQueue.enqueue(account.id, SyncJobType.incremental);
+      }
+    });
+  }
+
+  @Cron(CronExpression.EVERY_5_SECONDS)
+  async processSyncQueue(): Promise<void> {
+    if (this.claimingSyncJobs) {
+      return;
+    }
+
+    this.claimingSyncJobs = true;
+    try {
+      const jobs = await this.syncQueue.claimJobs(this.syncQueue.concurrency - this.activeSyncJobs);
+
+      for (const job of jobs) {
+        this.activeSyncJobs++;
+        void this.runSyncJob(job).finally(() => {
+          this.activeSyncJobs--;
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to claim sync jobs:', error);
+    } finally {
+      this.claimingSyncJobs = false;
     }
   }
 
-  async fetchEmails(token: Token, isInitialSync: boolean = false): Promise<void> {
-    if (!token) {
+  private async runSyncJob(job: SyncJob): Promise<void> {
+    let progress: SyncProgress | undefined;
+    const stopHeartbeat = this.keepLeaseAlive(job);
+
+    try {
+      if (job.runId) {
+        progress = await this.syncRuns.start(job.runId);
+      }
+
+      const account = await this.googleAuthService.getConnectedAccount(job.accountId);
+
+      if (!account) {
+        const error = new Error(`Account ${job.accountId} is not connected`);
+        await stopHeartbeat();
+        await this.syncQueue.fail(job, error, true);
+        if (progress) {
+          await this.syncRuns.recordFailure(progress, error, false);
+        }
+        return;
+      }
+
+      this.logger.log(`Running ${job.type} sync job ${job.id} for account ${account.email}`);
+      await this.fetchEmails(account, job.type === SyncJobType.initial, progress);
+      await stopHeartbeat();
+      if ((await this.syncQueue.complete(job)) && progress) {
+        await this.syncRuns.complete(progress);
+      }
+    } catch (error) {
+      try {
+        await stopHeartbeat();
+        const willRetry = await this.syncQueue.fail(job, error);
+        if (progress) {
+          await this.syncRuns.recordFailure(progress, error, willRetry);
+        }
+      } catch (queueError) {
+        this.logger.error(`Failed to record failure of sync job ${job.id}:`, queueError);
+      }
+    } finally {
+      await stopHeartbeat();
+    }
+  }
+
+  private keepLeaseAlive(job: SyncJob): () => Promise<void> {
+    let beat = Promise.resolve();
+
+    const timer = setInterval(() => {
+      beat = beat
+        .then(async () => {
+          if (!(await this.syncQueue.heartbeat(job))) {
+            this.logger.warn(`Sync job ${job.id} lost its lease to another worker`);
+          }
+        })
+        .catch((error) => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.warn(`Failed to extend the lease of sync job ${job.id}: ${errorMessage}`);
+        });
+    }, this.syncQueue.heartbeatIntervalMs);
+
+    // Waits for an in-flight heartbeat so it cannot land after the job is released
+    return () => {
+      clearInterval(timer);
+      return beat;
+    };
+  }
+
+  async fetchEmails(
+    account: AccountWithToken,
+    isInitialSync: boolean = false,
+    progress?: SyncProgress
+  ): Promise<void> {
+    if (!account?.token) {
       this.logger.warn("No OAuth token found. Please authenticate first.");
       return;
     }
 
     try {
 
-      const oAuth2Client = await this.googleAuthService.getAuthenticatedClient(token);
+      const oAuth2Client = await this.googleAuthService.getAuthenticatedClient(account.token);
       const gmail = google.gmail({ version: "v1", auth: oAuth2Client });
 
-      const historyId = token.historyId;
+      // History does not report label renames or colour changes, so labels are listed on an interval
+      // and whenever a message turned up a label ID that was not known yet
+      if (this.isLabelSyncDue(account)) {
+        try {
+          await this.labelService.syncLabels(gmail, account);
+        } catch (labelError) {
+          const labelErrorMessage = labelError instanceof Error ? labelError.message : 'Unknown error';
+          this.logger.warn(`Failed to sync labels for account ${account.email}: ${labelErrorMessage}`);
+        }
+      }
+
+      const historyId = account.historyId;
 
       let messageIds: string[] = [];
 
+      if (account.resyncHistoryId) {
+        await this.continueFullResync(gmail, account, progress);
+        return;
+      }
+
       if (historyId && !isInitialSync) {
         try {
-          const historyRes = await gmail.users.history.list({
-            userId: "me",
-            startHistoryId: historyId,
-            historyTypes: ["messageAdded"],
-          });
-
-          const history = historyRes.data.history || [];
-          messageIds = history
-            .flatMap((h) => h.messages || [])
-            .map((m) => m.id)
-            .filter((id): id is string => id !== undefined);
-
-          this.logger.log(
-            `Found ${messageIds.length} new messages via history API`
-          );
-
-          if (historyRes.data.historyId) {
-            await this.prisma.token.update({
-              where: { id: token.id },
-              data: { historyId: historyRes.data.historyId },
-            });
-          }
+          await this.syncHistory(gmail, account, historyId, progress);
+          return;
         } catch (historyError) {
+          if (getHttpStatus(historyError) !== 404) {
+            throw historyError;
+          }
+
           this.logger.warn(
-            `History API failed: ${historyError instanceof Error ? historyError.message : "Unknown error"}, falling back to full message list`
+            `History ID ${historyId} for account ${account.email} has expired, starting full resync`
           );
-          const maxMessages = isInitialSync ? 1000 : 100;
-          messageIds = await this.getRecentMessages(gmail, maxMessages);
+          await this.startFullResync(gmail, account, progress);
+          return;
         }
       } else {
         this.logger.log("No history ID found, performing initial sync");
-        const maxMessages = isInitialSync ? 2000 : 100;
-        messageIds = await this.getRecentMessages(gmail, maxMessages);
+        messageIds = await this.getRecentMessages(gmail, account, getMaxMessages(account, isInitialSync));
 
         if (isInitialSync) {
-          await this.setupGmailWatch(gmail, token);
+          await this.setupGmailWatch(gmail, account);
         }
       }
 
+      let failed = 0;
       for (const id of messageIds) {
-        const userId = token.userId ? String(token.userId) : undefined;
-        await this.processMessage(gmail, id, userId);
+        if ((await this.processMessage(gmail, id, account, progress)) === 'failed') {
+          failed++;
+        }
+      }
+
+      // Failing the run reschedules it, and messages stored meanwhile are skipped on the next pass
+      if (failed > 0) {
+        throw new Error(`${failed} message(s) failed to sync and will be retried`);
       }
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      this.logger.error(`Failed to fetch emails for token ${token.id}: ${errorMessage}`);
+      this.logger.error(`Failed to fetch emails for account ${account.email}: ${errorMessage}`);
 
       if (errorMessage.includes('unauthorized') || errorMessage.includes('invalid_grant')) {
-        this.logger.error(`Authentication failed for token ${token.id}. User may need to re-authenticate.`);
+        this.logger.error(`Authentication failed for account ${account.email}. User may need to re-authenticate.`);
       }
+
+      throw error;
     }
   }
 
-  private async getRecentMessages(gmail: gmail_v1.Gmail, maxMessages: number = 100): Promise<string[]> {
-    try {
-      const allMessageIds: string[] = [];
-      let nextPageToken: string | null | undefined;
-      let totalFetched = 0;
-      const batchSize = 50; 
+  private isLabelSyncDue(account: AccountWithToken): boolean {
+    return !account.labelsSyncedAt || Date.now() - account.labelsSyncedAt.getTime() >= this.labelSyncIntervalMs;
+  }
 
-      this.logger.log(`Starting to fetch recent messages (max: ${maxMessages})`);
+  private async syncHistory(
+    gmail: gmail_v1.Gmail,
+    account: AccountWithToken,
+    startHistoryId: string,
+    progress?: SyncProgress
+  ): Promise<void> {
+    let pageToken: string | undefined;
+    let latestHistoryId: string | null | undefined;
+    let pages = 0;
+    let failed = 0;
+
+    do {
+      const historyRes = await withRetry(
+        () =>
+          gmail.users.history.list({
+            userId: "me",
+            startHistoryId,
+            historyTypes: ["messageAdded", "messageDeleted", "labelAdded", "labelRemoved"],
+            maxResults: 500,
+            pageToken,
+          }),
+        { logger: this.logger, label: `History list for ${account.email}` }
+      );
 
-      do {
-        const response = await gmail.users.messages.list({
-          userId: "me",
-          maxResults: Math.min(batchSize, maxMessages - totalFetched),
-          pageToken: nextPageToken || undefined,
+      for (const record of historyRes.data.history || []) {
+        failed += await this.applyHistoryRecord(gmail, record, account, progress);
+      }
+
+      if (progress) {
+        await this.syncRuns.saveProgress(progress);
+      }
+
+      latestHistoryId = historyRes.data.historyId || latestHistoryId;
+      pageToken = historyRes.data.nextPageToken || undefined;
+      pages++;
+    } while (pageToken);
+
+    this.logger.log(`Processed ${pages} history page(s) for account ${account.email}`);
+
+    if (failed > 0) {
+      this.logger.warn(
+        `${failed} history change(s) failed for account ${account.email}, keeping checkpoint at ${startHistoryId}`
+      );
+      return;
+    }
+
+    if (latestHistoryId) {
+      await this.prisma.account.update({
+        where: { id: account.id },
+        data: { historyId: latestHistoryId },
+      });
+    }
+    await this.clearRetriedMessageFailures(account.id);
+  }
+
+  private async startFullResync(
+    gmail: gmail_v1.Gmail,
+    account: AccountWithToken,
+    progress?: SyncProgress
+  ): Promise<void> {
+    const profile = await withRetry(
+      () => gmail.users.getProfile({ userId: "me" }),
+      { logger: this.logger, label: `Profile lookup for ${account.email}` }
+    );
+
+    if (!profile.data.historyId) {
+      throw new Error(`Gmail profile for ${account.email} returned no history ID`);
+    }
+
+    const updated = await this.prisma.account.update({
+      where: { id: account.id },
+      data: {
+        resyncHistoryId: profile.data.historyId,
+        resyncPageToken: null,
+        resyncStartedAt: new Date(),
+      },
+    });
+
+    await this.continueFullResync(gmail, { ...updated, token: account.token }, progress);
+  }
+
+  private async continueFullResync(
+    gmail: gmail_v1.Gmail,
+    account: AccountWithToken,
+    progress?: SyncProgress
+  ): Promise<void> {
+    if (progress) {
+      progress.type = SyncRunType.resync;
+    }
+
+    const maxPages = Number(process.env.GMAIL_RESYNC_PAGES_PER_RUN) || 10;
+    let pageToken = account.resyncPageToken || undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      const response = await withRetry(
+        () =>
+          gmail.users.messages.list({
+            userId: "me",
+            maxResults: RESYNC_PAGE_SIZE,
+            pageToken,
+            q: buildListQuery(account),
+            labelIds: getListLabelIds(account),
+          }),
+        { logger: this.logger, label: `Resync message list for ${account.email}` }
+      );
+
+      let failed = 0;
+      for (const message of response.data.messages || []) {
+        if (message.id && (await this.processMessage(gmail, message.id, account, progress)) === 'failed') {
+          failed++;
+        }
+      }
+
+      if (progress) {
+        await this.syncRuns.saveProgress(progress);
+      }
+
+      if (failed > 0) {
+        this.logger.warn(
+          `${failed} message(s) failed during resync of ${account.email}, will retry this page on the next run`
+        );
+        return;
+      }
+
+      await this.clearRetriedMessageFailures(account.id);
+      pageToken = response.data.nextPageToken || undefined;
+
+      if (!pageToken) {
+        await this.prisma.account.update({
+          where: { id: account.id },
+          data: {
+            historyId: account.resyncHistoryId,
+            resyncHistoryId: null,
+            resyncPageToken: null,
+            resyncStartedAt: null,
+          },
         });
+        this.logger.log(`Full resync completed for account ${account.email}`);
+        return;
+      }
 
-        const messages = response.data.messages || [];
-        const messageIds = messages
-          .map((m) => m.id)
-          .filter((id): id is string => id !== undefined);
+      await this.prisma.account.update({
+        where: { id: account.id },
+        data: { resyncPageToken: pageToken },
+      });
+    }
+
+    this.logger.log(`Full resync for account ${account.email} paused after ${maxPages} page(s), resuming on the next run`);
+  }
 
-        allMessageIds.push(...messageIds);
-        totalFetched += messageIds.length;
-        nextPageToken = response.data.nextPageToken;
+  private async applyHistoryRecord(
+    gmail: gmail_v1.Gmail,
+    record: gmail_v1.Schema$History,
+    account: AccountWithToken,
+    progress?: SyncProgress
+  ): Promise<number> {
+    let failed = 0;
+
+    // History changes are not filtered by Gmail, so new messages are checked against the sync query
+    for (const { message } of record.messagesAdded || []) {
+      if (message?.id && (await this.processMessage(gmail, message.id, account, progress, true)) === 'failed') {
+        failed++;
+      }
+    }
+
+    for (const { message } of record.messagesDeleted || []) {
+      if (message?.id) {
+        await this.prisma.email.updateMany({
+          where: { accountId: account.id, messageId: message.id, deletedAt: null },
+          data: { deletedAt: new Date() },
+        });
+        this.logger.debug(`Marked email ${message.id} as deleted`);
+      }
+    }
 
-        this.logger.log(`Fetched ${messageIds.length} messages (total: ${totalFetched})`);
+    const labelChanges = [
+      ...(record.labelsAdded || []).map(({ message, labelIds }) => ({
+        message,
+        previousLabelIds: (message?.labelIds || []).filter((id) => !labelIds?.includes(id)),
+      })),
+      ...(record.labelsRemoved || []).map(({ message, labelIds }) => ({
+        message,
+        previousLabelIds: [...(message?.labelIds || []), ...(labelIds || [])],
+      })),
+    ];
+    for (const { message, previousLabelIds } of labelChanges) {
+      if (message?.id && message.labelIds) {
+        const { count } = await this.prisma.email.updateMany({
+          where: { accountId: account.id, messageId: message.id },
+          data: { labelIds: message.labelIds },
+        });
 
-        if (totalFetched >= maxMessages || !nextPageToken || messageIds.length === 0) {
-          break;
+        if (count > 0) {
+          await this.labelService.relabelMessage(account.id, message.id, message.labelIds);
+          this.logger.debug(`Updated labels for email ${message.id}: ${message.labelIds.join(', ')}`);
+        } else if (entersScopeByLabels(account, previousLabelIds, message.labelIds)) {
+          // A message skipped for its labels, e.g. one moved out of spam, is stored once it comes into scope
+          if ((await this.processMessage(gmail, message.id, account, progress, true)) === 'failed') {
+            failed++;
+          }
         }
+      }
+    }
+
+    return failed;
+  }
 
-      } while (nextPageToken && totalFetched < maxMessages);
+  private async getRecentMessages(
+    gmail: gmail_v1.Gmail,
+    scope: SyncScope,
+    maxMessages: number = 100
+  ): Promise<string[]> {
+    const allMessageIds: string[] = [];
+    let nextPageToken: string | null | undefined;
+    let totalFetched = 0;
+    const batchSize = 50; 
+
+    this.logger.log(`Starting to fetch recent messages (max: ${maxMessages})`);
+
+    do {
+      const response = await withRetry(
+        () =>
+          gmail.users.messages.list({
+            userId: "me",
+            maxResults: Math.min(batchSize, maxMessages - totalFetched),
+            pageToken: nextPageToken || undefined,
+            q: buildListQuery(scope),
+            labelIds: getListLabelIds(scope),
+          }),
+        { logger: this.logger, label: 'Message list' }
+      );
 
-      this.logger.log(`Completed message fetch: ${allMessageIds.length} total messages`);
-      return allMessageIds;
+      const messages = response.data.messages || [];
+      const messageIds = messages
+        .map((m) => m.id)
+        .filter((id): id is string => id !== undefined);
 
-    } catch (error) {
-      this.logger.error("Failed to fetch recent messages:", error);
-      return [];
+      allMessageIds.push(...messageIds);
+      totalFetched += messageIds.length;
+      nextPageToken = response.data.nextPageToken;
+
+      this.logger.log(`Fetched ${messageIds.length} messages (total: ${totalFetched})`);
+
+      if (totalFetched >= maxMessages || !nextPageToken || messageIds.length === 0) {
+        break;
+      }
+
+    } while (nextPageToken && totalFetched < maxMessages);
+
+    this.logger.log(`Completed message fetch: ${allMessageIds.length} total messages`);
+    return allMessageIds;
+  }
+
+  async processMessage(
+    gmail: gmail_v1.Gmail,
+    id: string,
+    account: AccountWithToken,
+    progress?: SyncProgress,
+    verifyQuery: boolean = false
+  ): Promise<MessageProcessResult> {
+    const result = await this.storeMessage(gmail, id, account, progress, verifyQuery);
+
+    if (progress) {
+      progress.messagesSeen++;
+      if (result === 'stored') {
+        progress.messagesStored++;
+      } else if (result === 'skipped') {
+        progress.messagesSkipped++;
+      } else {
+        progress.messagesFailed++;
+      }
     }
+
+    return result;
   }
 
-  async processMessage(gmail: gmail_v1.Gmail, id: string, userId?: string): Promise<void> {
+  private async storeMessage(
+    gmail: gmail_v1.Gmail,
+    id: string,
+    account: AccountWithToken,
+    progress?: SyncProgress,
+    verifyQuery: boolean = false
+  ): Promise<MessageProcessResult> {
     try {
       const existingEmail = await this.prisma.email.findUnique({
-        where: { messageId: id },
+        where: { accountId_messageId: { accountId: account.id, messageId: id } },
       });
 
       if (existingEmail) {
         this.logger.debug(`Email ${id} already exists, skipping...`);
-        return;
+        return 'skipped';
       }
 
-      const res = await gmail.users.messages.get({
-        userId: "me",
-        id,
-        format: "full",
-      });
+      const res = await withRetry(
+        () =>
+          gmail.users.messages.get({
+            userId: "me",
+            id,
+            format: "full",
+          }),
+        { logger: this.logger, label: `Fetch of message ${id}` }
+      );
 
       const msg = res.data;
       if (!msg || !msg.payload) {
         this.logger.warn(`No payload found for message ${id}`);
-        return;
+        return 'skipped';
+      }
+
+      const date = new Date(Number(msg.internalDate) || Date.now());
+      const outOfScopeReason = getOutOfScopeReason(account, msg.labelIds, date);
+      if (outOfScopeReason) {
+        this.logger.debug(`Email ${id} ${outOfScopeReason}, skipping...`);
+        return 'skipped';
+      }
+
+      if (verifyQuery && account.syncQuery?.trim() && !(await this.matchesSyncQuery(gmail, msg, account))) {
+        this.logger.debug(`Email ${id} does not match the sync query for ${account.email}, skipping...`);
+        return 'skipped';
       }
 
       const payload = msg.payload;
-      const headers = (payload.headers || []) as EmailHeader[];
+      const headers = (payload.headers || []).map((h) => ({ name: h.name || '', value: h.value || '' }));
 
-      const getHeader = (name: string): string => {
-        const header = headers.find(
-          (h) => h.name.toLowerCase() === name.toLowerCase()
-        );
-        return header?.value || "";
-      };
+      const getHeader = (name: string): string => getHeaderValue(headers, name);
+
+      const rfcMessageId = parseMessageIds(getHeader('Message-ID'))[0] ?? null;
+      const inReplyTo = parseMessageIds(getHeader('In-Reply-To'))[0] ?? null;
+      const references = parseMessageIds(getHeader('References'));
+
+      const threadId =
+        msg.threadId ||
+        (await this.threadService.resolveThreadId(account.id, { rfcMessageId, inReplyTo, references })) ||
+        id;
+
+      const body = extractMessageBody(payload);
 
       const emailDto: CreateEmailDto = {
         messageId: msg.id || '',
-        threadId: msg.threadId || '',
-        subject: getHeader('Subject'),
+        threadId,
+        rfcMessageId,
+        inReplyTo,
+        references,
+        replyTo: getHeader('Reply-To') || null,
+        listId: getHeader('List-Id') || null,
+        listUnsubscribe: getHeader('List-Unsubscribe') || null,
+        autoSubmitted: getHeader('Auto-Submitted') || null,
+        category: classifyEmail(headers),
+        headers,
+        subject: decodeEncodedWords(getHeader('Subject')),
         sender: getHeader('From'),
         recipients: getHeader('To') || '',
         cc: getHeader('Cc') || '',
         bcc: getHeader('Bcc') || '',
-        date: new Date(Number(msg.internalDate) || Date.now()),
-        bodyText: '',
-        bodyHtml: '',
+        date,
+        bodyText: body.text,
+        bodyHtml: body.html,
+        labelIds: msg.labelIds || [],
       };
-      
-
-      const parts = this.extractParts(payload);
-      for (const part of parts) {
-        const mimeType = part.mimeType;
 
-        this.logger.debug(`Processing MIME type: ${mimeType}`);
-
-        const bodyData = part.body?.data;
-
-        if (bodyData && typeof bodyData === "string") {
-          const decoded = Buffer.from(bodyData, "base64").toString("utf8");
-          if (mimeType === "text/plain") {
-            emailDto.bodyText = decoded;
-          }
-          if (mimeType === "text/html") {
-            emailDto.bodyHtml = decoded;
-          }
-        }
-      }
-
-      await this.prisma.email.create({
+      const email = await this.prisma.email.create({
         data: {
           ...emailDto,
-          userId: userId,
+          accountId: account.id,
         },
       });
 
-      await this.processAttachments(gmail, msg, emailDto.messageId, userId);
+      try {
+        await this.labelService.linkEmailLabels(email.id, account.id, emailDto.labelIds);
+      } catch (labelError) {
+        const labelErrorMessage = labelError instanceof Error ? labelError.message : 'Unknown error';
+        this.logger.warn(`Failed to link labels for email ${id}: ${labelErrorMessage}`);
+      }
+
+      try {
+        await this.contactsService.recordParticipants(account.id, email.id, emailDto);
+      } catch (contactError) {
+        const contactErrorMessage = contactError instanceof Error ? contactError.message : 'Unknown error';
+        this.logger.warn(`Failed to record participants for email ${id}: ${contactErrorMessage}`);
+      }
+
+      await this.processInlineResources(gmail, msg, email.id);
+
+      if (account.processAttachments) {
+        const uploaded = await this.processAttachments(gmail, msg, email.id, account);
+        if (progress) {
+          progress.attachmentsUploaded += uploaded;
+        }
+      }
 
       this.logger.log(
         `Stored message: "${emailDto.subject}" from ${emailDto.sender}`
       );
+      return 'stored';
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       if (errorMessage.includes("Unique constraint")) {
         this.logger.debug(`Duplicate email ${id}, skipping...`);
-      } else {
-        this.logger.warn(`Failed to process email ${id}: ${errorMessage}`);
+        return 'skipped';
+      }
+      if (getHttpStatus(error) === 404) {
+        this.logger.debug(`Email ${id} no longer exists in Gmail, skipping...`);
+        return 'skipped';
       }
+      this.logger.warn(`Failed to process email ${id}: ${errorMessage}`);
+      return this.recordMessageFailure(account.id, id, errorMessage);
+    }
+  }
+
+  private async recordMessageFailure(
+    accountId: string,
+    messageId: string,
+    errorMessage: string
+  ): Promise<MessageProcessResult> {
+    try {
+      const { attempts } = await this.prisma.failedMessage.upsert({
+        where: { accountId_messageId: { accountId, messageId } },
+        create: { accountId, messageId, lastError: errorMessage },
+        update: { attempts: { increment: 1 }, lastError: errorMessage },
+      });
+
+      if (attempts < MESSAGE_MAX_ATTEMPTS) {
+        return 'failed';
+      }
+
+      this.logger.error(`Giving up on email ${messageId} after ${attempts} failed attempt(s): ${errorMessage}`);
+      return 'abandoned';
+    } catch (recordError) {
+      const recordErrorMessage = recordError instanceof Error ? recordError.message : 'Unknown error';
+      this.logger.warn(`Failed to record failure of email ${messageId}: ${recordErrorMessage}`);
+      return 'failed';
+    }
+  }
+
+  // Failures still below the attempt limit were retried and passed once the checkpoint moves
+  private async clearRetriedMessageFailures(accountId: string): Promise<void> {
+    await this.prisma.failedMessage.deleteMany({
+      where: { accountId, attempts: { lt: MESSAGE_MAX_ATTEMPTS } },
+    });
+  }
+
+  // Gmail search syntax cannot be evaluated locally, so ask Gmail whether the query matches
+  // anything received within a second of this message and look for it in the results
+  private async matchesSyncQuery(
+    gmail: gmail_v1.Gmail,
+    msg: gmail_v1.Schema$Message,
+    scope: SyncScope
+  ): Promise<boolean> {
+    const seconds = Math.floor(Number(msg.internalDate) / 1000);
+    const response = await withRetry(
+      () =>
+        gmail.users.messages.list({
+          userId: "me",
+          q: `${buildListQuery(scope)} after:${seconds - 1} before:${seconds + 1}`,
+          maxResults: 100,
+        }),
+      { logger: this.logger, label: `Sync query check for message ${msg.id}` }
+    );
+
+    return (response.data.messages || []).some((message) => message.id === msg.id);
+  }
+
+  private async downloadPartData(
+    gmail: gmail_v1.Gmail,
+    messageId: string,
+    part: gmail_v1.Schema$MessagePart
+  ): Promise<Buffer | null> {
+    if (part.body?.data) {
+      return Buffer.from(part.body.data, 'base64url');
+    }
+
+    if (!part.body?.attachmentId) {
+      return null;
+    }
+
+    const attachmentResponse = await gmail.users.messages.attachments.get({
+      userId: 'me',
+      messageId: messageId,
+      id: part.body.attachmentId,
+    });
+
+    const data = attachmentResponse.data.data;
+    if (!data) {
+      throw new Error('No attachment data received');
     }
+
+    return Buffer.from(data, 'base64url');
   }
 
   private extractParts(
@@ -253,218 +801,535 @@ export class GmailService {
     return allParts;
   }
 
+  // Attachment rows are written before anything is downloaded, so a failure is recorded and can be retried
   async processAttachments(
     gmail: gmail_v1.Gmail,
     message: gmail_v1.Schema$Message,
+    emailId: string,
+    account: AccountWithToken
+  ): Promise<number> {
+    if (!message.payload || !message.id) {
+      return 0;
+    }
+
+    const parts = this.listAttachmentParts(message.payload);
+
+    if (parts.length === 0) {
+      this.logger.debug(`No attachments found for message ${message.id}`);
+      return 0;
+    }
+
+    this.logger.log(`Found ${parts.length} attachment(s) for message ${message.id}`);
+
+    try {
+      const attachments = await this.prisma.attachment.createManyAndReturn({
+        data: parts.map(([partId, part]) => ({
+          emailId,
+          accountId: account.id,
+          partId,
+          fileName: part.filename!,
+          mimeType: part.mimeType || 'application/octet-stream',
+          size: part.body?.size ?? null,
+          status: AttachmentStatus.pending,
+          storageProvider: this.storageService.getProvider(account).backend,
+        })),
+        select: detectedAttachmentSelect,
+      });
+
+      return await this.storeAttachments(gmail, message, attachments, account);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to record attachments for message ${message.id}: ${errorMessage}`);
+      return 0;
+    }
+  }
+
+  // Downloads a message again to retry attachments whose upload failed
+  async retryAttachments(
+    account: AccountWithToken,
     messageId: string,
-    userId?: string
-  ): Promise<void> {
+    attachments: DetectedAttachment[]
+  ): Promise<number> {
+    const oAuth2Client = await this.googleAuthService.getAuthenticatedClient(account.token);
+    const gmail = google.gmail({ version: "v1", auth: oAuth2Client });
+
+    let message: gmail_v1.Schema$Message;
     try {
-      if (!message.payload) {
-        return;
-      }
+      const res = await withRetry(
+        () => gmail.users.messages.get({ userId: "me", id: messageId, format: "full" }),
+        { logger: this.logger, label: `Fetch of message ${messageId}` }
+      );
+      message = res.data;
+    } catch (error) {
+      const gone = getHttpStatus(error) === 404;
+      const errorMessage = gone
+        ? 'Message no longer exists in Gmail'
+        : error instanceof Error ? error.message : 'Unknown error';
 
-      const attachments = await this.extractAttachments(gmail, message);
-      
-      if (attachments.length === 0) {
-        this.logger.debug(`No attachments found for message ${messageId}`);
-        return;
+      for (const attachment of attachments) {
+        await this.markAttachmentFailed(attachment, errorMessage, !gone);
       }
+      return 0;
+    }
 
-      this.logger.log(`Found ${attachments.length} attachment(s) for message ${messageId}`);
+    return this.storeAttachments(gmail, message, attachments, account);
+  }
 
-      const tokens = await this.prisma.token.findMany();
-      const userToken = userId ? tokens.find(t => t.userId === userId) : tokens[0];
-      
-      if (!userToken) {
-        this.logger.warn('No valid token found for Drive upload');
-        return;
+  private async storeAttachments(
+    gmail: gmail_v1.Gmail,
+    message: gmail_v1.Schema$Message,
+    attachments: DetectedAttachment[],
+    account: AccountWithToken
+  ): Promise<number> {
+    const messageId = message.id!;
+    const parts = new Map(message.payload ? this.listAttachmentParts(message.payload) : []);
+    const settled = new Set<string>();
+    let tempDir: string | undefined;
+
+    try {
+      tempDir = await mkdtemp(join(tmpdir(), 'earc-attachments-'));
+      const downloaded: { attachment: DetectedAttachment; data: AttachmentData }[] = [];
+
+      for (const attachment of attachments) {
+        const part = attachment.partId ? parts.get(attachment.partId) : undefined;
+        if (!part) {
+          await this.markAttachmentFailed(attachment, 'Attachment is no longer part of the Gmail message', false);
+          settled.add(attachment.id);
+          continue;
+        }
+
+        try {
+          const data = await this.downloadAttachment(
+            gmail,
+            messageId,
+            attachment.partId!,
+            part,
+            join(tempDir, String(downloaded.length))
+          );
+          downloaded.push({ attachment, data });
+        } catch (error) {
+          if (error instanceof AttachmentTooLargeError) {
+            this.logger.warn(`Skipping attachment ${attachment.fileName} of message ${messageId}: ${error.message}`);
+            await this.markAttachmentSkipped(attachment, error.message);
+            settled.add(attachment.id);
+            continue;
+          }
+
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.error(`Failed to download attachment ${attachment.fileName} of message ${messageId}: ${errorMessage}`);
+          await this.markAttachmentFailed(attachment, errorMessage);
+          settled.add(attachment.id);
+        }
       }
 
-      const oAuth2Client = await this.googleAuthService.getAuthenticatedClient(userToken);
-      
-      const headers = (message.payload.headers || []) as EmailHeader[];
-      const subject = headers.find(h => h.name.toLowerCase() === 'subject')?.value || 'No Subject';
+      if (downloaded.length === 0) {
+        return 0;
+      }
+
+      const headers = (message.payload?.headers || []) as EmailHeader[];
+      const subject = decodeEncodedWords(headers.find(h => h.name.toLowerCase() === 'subject')?.value || '') || 'No Subject';
 
-      const uploadResults = await this.driveService.uploadAttachments(
-        oAuth2Client,
-        attachments,
-        subject
+      // Sync runs one job per account at a time, so a blob uploaded here is visible to the next message
+      const blobs = await this.attachmentDedup.findStoredBlobs(
+        account.id,
+        downloaded.map(({ data }) => data.sha256)
       );
+      const toUpload = downloaded
+        .map(({ data }) => data)
+        .filter(
+          (data, index, all) =>
+            !blobs.has(data.sha256) && all.findIndex((other) => other.sha256 === data.sha256) === index
+        );
+      const reused = downloaded.length - toUpload.length;
+      const uploadErrors = new Map<string, string>();
+
+      if (toUpload.length > 0) {
+        const storage = this.storageService.getProvider(account);
+        const results = await storage.uploadAttachments(
+          {
+            accountId: account.id,
+            messageId,
+            emailSubject: subject,
+            getAuthClient: () => this.googleAuthService.getAuthenticatedClient(account.token),
+          },
+          toUpload
+        );
 
-      for (const result of uploadResults) {
-        await this.storeAttachmentMetadata(messageId, result);
+        for (const result of results) {
+          if ('object' in result) {
+            blobs.set(result.object.sha256, result.object);
+          } else {
+            uploadErrors.set(result.attachment.sha256, result.error);
+          }
+        }
       }
 
-      this.logger.log(`Processed ${uploadResults.length} attachments for message ${messageId}`);
+      let stored = 0;
+      for (const { attachment, data } of downloaded) {
+        const blob = blobs.get(data.sha256);
+        if (blob) {
+          await this.markAttachmentUploaded(attachment, data, blob);
+          stored++;
+        } else {
+          await this.markAttachmentFailed(attachment, uploadErrors.get(data.sha256) ?? 'Upload failed');
+        }
+        settled.add(attachment.id);
+      }
+
+      this.logger.log(
+        `Processed ${stored} attachments for message ${messageId}${reused > 0 ? ` (${reused} reused existing files)` : ''}`
+      );
+      return stored;
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Failed to process attachments for message ${messageId}: ${errorMessage}`);
+
+      // Counted as an attempt, so an error that keeps recurring stops being retried
+      try {
+        for (const attachment of attachments) {
+          if (!settled.has(attachment.id)) {
+            await this.markAttachmentFailed(attachment, errorMessage);
+          }
+        }
+      } catch (markError) {
+        const markErrorMessage = markError instanceof Error ? markError.message : 'Unknown error';
+        this.logger.warn(`Failed to record attachment failures of message ${messageId}: ${markErrorMessage}`);
+      }
+      return 0;
+    } finally {
+      if (tempDir) {
+        await rm(tempDir, { recursive: true, force: true });
+      }
     }
   }
 
-  async extractAttachments(
+  async processInlineResources(
     gmail: gmail_v1.Gmail,
-    message: gmail_v1.Schema$Message
-  ): Promise<AttachmentData[]> {
-    const attachments: AttachmentData[] = [];
-
-    if (!message.payload) {
-      return attachments;
+    message: gmail_v1.Schema$Message,
+    emailId: string
+  ): Promise<void> {
+    if (!message.payload || !message.id) {
+      return;
     }
 
-    const parts = this.extractParts(message.payload);
+    const resources: Prisma.InlineResourceCreateManyInput[] = [];
+    const inlineContentIds = getInlineContentIds(message.payload);
 
-    for (const part of parts) {
-      if (this.isAttachment(part)) {
-        try {
-          const attachmentData = await this.downloadAttachment(gmail, message.id!, part);
-          if (attachmentData) {
-            attachments.push(attachmentData);
-          }
-        } catch (error) {
-          this.logger.error(`Failed to download attachment ${part.filename}:`, error);
+    for (const part of this.extractParts(message.payload)) {
+      if (!isInlinePart(part, inlineContentIds)) {
+        continue;
+      }
+
+      try {
+        // Inline resources are buffered and stored in the database, so the attachment size cap applies to them too
+        if ((part.body?.size ?? 0) > this.maxAttachmentBytes) {
+          throw new AttachmentTooLargeError(this.maxAttachmentBytes);
+        }
+
+        const data = await this.downloadPartData(gmail, message.id, part);
+        if (data && data.length > this.maxAttachmentBytes) {
+          throw new AttachmentTooLargeError(this.maxAttachmentBytes);
         }
+
+        if (data) {
+          resources.push({
+            emailId,
+            contentId: getContentId(part),
+            fileName: getPartFilename(part) || null,
+            mimeType: part.mimeType || 'application/octet-stream',
+            size: data.length,
+            data,
+          });
+        }
+      } catch (error) {
+        if (error instanceof AttachmentTooLargeError) {
+          this.logger.warn(`Skipping inline resource ${getContentId(part)} of message ${message.id}: ${error.message}`);
+          continue;
+        }
+
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(`Failed to download inline resource ${getContentId(part)} of message ${message.id}: ${errorMessage}`);
       }
     }
 
-    return attachments;
-  }
-
-  private isAttachment(part: gmail_v1.Schema$MessagePart): boolean {
-    if (part.body?.attachmentId) {
-      return true;
+    if (resources.length === 0) {
+      return;
     }
 
-    if (part.headers) {
-      const disposition = part.headers.find(
-        h => h.name?.toLowerCase() === 'content-disposition'
-      );
-      if (disposition?.value?.includes('attachment')) {
-        return true;
-      }
+    try {
+      await this.prisma.inlineResource.createMany({ data: resources, skipDuplicates: true });
+      this.logger.debug(`Stored ${resources.length} inline resource(s) for message ${message.id}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to store inline resources for message ${message.id}: ${errorMessage}`);
     }
+  }
+
+  // Parts without a Gmail part ID fall back to their position, which is stable for a given message
+  private listAttachmentParts(
+    payload: gmail_v1.Schema$MessagePart
+  ): [string, gmail_v1.Schema$MessagePart][] {
+    const inlineContentIds = getInlineContentIds(payload);
 
-    return !!(part.filename && part.body?.size && part.body.size > 0);
+    return this.extractParts(payload)
+      .map((part, index): [string, gmail_v1.Schema$MessagePart] => [part.partId || String(index), part])
+      .filter(([, part]) => isAttachmentPart(part, inlineContentIds) && !!part.filename);
   }
 
   async downloadAttachment(
     gmail: gmail_v1.Gmail,
     messageId: string,
-    part: gmail_v1.Schema$MessagePart
-  ): Promise<AttachmentData | null> {
-    try {
-      if (!part.body?.attachmentId || !part.filename) {
-        return null;
-      }
+    partId: string,
+    part: gmail_v1.Schema$MessagePart,
+    filePath: string
+  ): Promise<AttachmentData> {
+    // Gmail reports the decoded size up front, so most oversized files are skipped without downloading
+    if ((part.body?.size ?? 0) > this.maxAttachmentBytes) {
+      throw new AttachmentTooLargeError(this.maxAttachmentBytes);
+    }
 
-      const attachmentResponse = await gmail.users.messages.attachments.get({
-        userId: 'me',
-        messageId: messageId,
-        id: part.body.attachmentId,
-      });
+    const source = await this.openPartStream(gmail, messageId, part);
+    if (!source) {
+      throw new Error('Attachment part has no data');
+    }
 
-      const data = attachmentResponse.data.data;
-      if (!data) {
-        throw new Error('No attachment data received');
-      }
+    const { size, sha256 } = await spoolToFile(source, filePath, this.maxAttachmentBytes);
 
-      const buffer = Buffer.from(data, 'base64');
+    return {
+      partId,
+      fileName: part.filename!,
+      mimeType: part.mimeType || 'application/octet-stream',
+      filePath,
+      size,
+      sha256,
+    };
+  }
 
-      return {
-        fileName: part.filename,
-        mimeType: part.mimeType || 'application/octet-stream',
-        data: buffer,
-        size: buffer.length,
-      };
+  private async openPartStream(
+    gmail: gmail_v1.Gmail,
+    messageId: string,
+    part: gmail_v1.Schema$MessagePart
+  ): Promise<Readable | null> {
+    if (part.body?.data) {
+      return Readable.from([Buffer.from(part.body.data, 'base64url')]);
+    }
 
-    } catch (error) {
-      this.logger.error(`Failed to download attachment ${part.filename}:`, error);
+    if (!part.body?.attachmentId) {
       return null;
     }
+
+    const response = await gmail.users.messages.attachments.get(
+      { userId: 'me', messageId, id: part.body.attachmentId },
+      { responseType: 'stream' }
+    );
+
+    const decoder = new GmailAttachmentDecoder();
+    response.data.on('error', (error) => decoder.destroy(error));
+    return response.data.pipe(decoder);
   }
 
-  async storeAttachmentMetadata(
-    emailMessageId: string,
-    uploadResult: DriveUploadResult
+  private async markAttachmentUploaded(
+    attachment: DetectedAttachment,
+    data: AttachmentData,
+    blob: StoredObject
   ): Promise<void> {
-    try {
-      const email = await this.prisma.email.findUnique({
-        where: { messageId: emailMessageId },
-      });
+    await this.prisma.attachment.update({
+      where: { id: attachment.id },
+      data: {
+        status: AttachmentStatus.uploaded,
+        attempts: attachment.attempts + 1,
+        lastError: null,
+        nextAttemptAt: null,
+        size: data.size,
+        sha256: data.sha256,
+        storageProvider: blob.provider,
+        storageKey: blob.key,
+        sharingUpdatedAt: blob.provider === StorageBackend.drive ? new Date() : null,
+      },
+    });
+
+    this.logger.log(`Stored attachment ${attachment.fileName}`);
+  }
 
-      if (!email) {
-        this.logger.warn(`Email not found for attachment storage: ${emailMessageId}`);
-        return;
-      }
+  private async markAttachmentSkipped(attachment: DetectedAttachment, reason: string): Promise<void> {
+    await this.prisma.attachment.update({
+      where: { id: attachment.id },
+      data: {
+        status: AttachmentStatus.skipped,
+        attempts: attachment.attempts + 1,
+        lastError: reason,
+        nextAttemptAt: null,
+      },
+    });
+  }
 
-      await this.prisma.attachment.create({
-        data: {
-          emailId: email.id,
-          fileName: uploadResult.fileName,
-          mimeType: uploadResult.mimeType,
-          driveLink: uploadResult.webViewLink,
-        },
-      });
+  // Failures back off exponentially; permanent ones and the last attempt leave nextAttemptAt empty
+  async markAttachmentFailed(
+    attachment: DetectedAttachment,
+    errorMessage: string,
+    retryable: boolean = true
+  ): Promise<void> {
+    const attempts = attachment.attempts + 1;
+    const retry = retryable && attempts < ATTACHMENT_MAX_ATTEMPTS;
+    const delay = Math.min(this.attachmentRetryBaseMs * 2 ** (attempts - 1), MAX_ATTACHMENT_RETRY_DELAY_MS);
+
+    await this.prisma.attachment.update({
+      where: { id: attachment.id },
+      data: {
+        status: AttachmentStatus.failed,
+        attempts,
+        lastError: errorMessage,
+        nextAttemptAt: retry ? new Date(Date.now() + delay) : null,
+      },
+    });
+  }
 
-      this.logger.log(`Stored attachment metadata: ${uploadResult.fileName}`);
+  async setupGmailWatch(
+    gmail: gmail_v1.Gmail,
+    account: AccountWithToken,
+    updateCheckpoint: boolean = true
+  ): Promise<void> {
+    const topicName = account.watchTopicName || process.env.GOOGLE_PUBSUB_TOPIC;
 
-    } catch (error) {
-      this.logger.error(`Failed to store attachment metadata:`, error);
+    if (!topicName) {
+      this.logger.warn(`No Pub/Sub topic configured for account ${account.email}, skipping Gmail watch`);
+      return;
     }
-  }
 
-  async setupGmailWatch(gmail: gmail_v1.Gmail, token: Token): Promise<void> {
     try {
       const watchRequest = {
         userId: 'me',
         requestBody: {
-          topicName: process.env.GOOGLE_PUBSUB_TOPIC,
-          labelIds: [],
-          labelFilterAction: 'include' as const,
+          topicName,
+          ...getWatchLabelFilter(account),
         },
       };
 
       const response = await gmail.users.watch(watchRequest);
-      
-      if (response.data.historyId) {
-        await this.prisma.token.update({
-          where: { id: token.id },
-          data: { historyId: response.data.historyId },
-        });
-        
-        this.logger.log(`Gmail watch setup successful for token ${token.id}, history ID: ${response.data.historyId}`);
-      }
+      const { historyId, expiration } = response.data;
+
+      await this.prisma.account.update({
+        where: { id: account.id },
+        data: {
+          watchExpiration: expiration ? BigInt(expiration) : null,
+          ...(updateCheckpoint && historyId && { historyId }),
+        },
+      });
+
+      this.logger.log(
+        `Gmail watch setup successful for account ${account.email}, history ID: ${historyId}, expires: ${expiration ? new Date(Number(expiration)).toISOString() : 'unknown'}`
+      );
     } catch (error) {
-      this.logger.error(`Failed to setup Gmail watch for token ${token.id}:`, error);
+      this.logger.error(`Failed to setup Gmail watch for account ${account.email}:`, error);
     }
   }
 
-  async handlePushNotification(message: { data?: string; [key: string]: any }): Promise<void> {
+  async renewGmailWatch(account: AccountWithToken): Promise<void> {
+    const oAuth2Client = await this.googleAuthService.getAuthenticatedClient(account.token);
+    const gmail = google.gmail({ version: "v1", auth: oAuth2Client });
+
+    await this.setupGmailWatch(gmail, account, false);
+  }
+
+  async stopGmailWatch(account: AccountWithToken): Promise<void> {
     try {
-      this.logger.log('Received Gmail push notification');
-      
-      let parsedData: unknown = {};
-      if (message.data && typeof message.data === 'string') {
-        const data = Buffer.from(message.data, 'base64').toString();
-        try {
-          parsedData = JSON.parse(data);
-        } catch (parseError) {
-          this.logger.warn('Failed to parse push notification data:', parseError);
-        }
+      const oAuth2Client = await this.googleAuthService.getAuthenticatedClient(account.token);
+      const gmail = google.gmail({ version: "v1", auth: oAuth2Client });
+
+      await gmail.users.stop({ userId: 'me' });
+      this.logger.log(`Stopped Gmail watch for account ${account.email}`);
+    } catch (error) {
+      this.logger.error(`Failed to stop Gmail watch for account ${account.email}:`, error);
+    }
+
+    await this.prisma.account.update({
+      where: { id: account.id },
+      data: { watchExpiration: null },
+    });
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async renewExpiringWatches(): Promise<void> {
+    await this.leaderElection.runExclusive('gmail-watch-renewal', 2 * 60 * 60 * 1000, () =>
+      this.renewWatchesExpiringSoon()
+    );
+  }
+
+  private async renewWatchesExpiringSoon(): Promise<void> {
+    const renewBefore = BigInt(Date.now() + WATCH_RENEWAL_WINDOW_MS);
+    const accounts = await this.googleAuthService.getConnectedAccounts();
+    // An account with a topic but no expiration never got a watch (or its setup failed), so it is due as well
+    const expiring = accounts.filter(
+      (account) =>
+        Boolean(account.watchTopicName || process.env.GOOGLE_PUBSUB_TOPIC) &&
+        (account.watchExpiration === null || account.watchExpiration <= renewBefore)
+    );
+
+    if (expiring.length === 0) {
+      this.logger.debug('No Gmail watches due for renewal');
+      return;
+    }
+
+    this.logger.log(`Renewing ${expiring.length} Gmail watch(es)...`);
+
+    for (const account of expiring) {
+      try {
+        await this.renewGmailWatch(account);
+      } catch (error) {
+        this.logger.error(`Failed to renew Gmail watch for account ${account.email}:`, error);
       }
-      
-      this.logger.log('Push notification data:', parsedData);
-      
-      const tokens = await this.prisma.token.findMany();
-      
-      for (const token of tokens) {
-        await this.fetchEmails(token, false);
+    }
+  }
+
+  // Stale notifications and unknown accounts are acknowledged; any other error propagates so Pub/Sub redelivers
+  async handlePushNotification(message: { data?: string; [key: string]: any }): Promise<void> {
+    this.logger.log('Received Gmail push notification');
+
+    let notification: GmailPushNotification = {};
+    if (message.data && typeof message.data === 'string') {
+      const data = Buffer.from(message.data, 'base64').toString();
+      try {
+        notification = JSON.parse(data) as GmailPushNotification;
+      } catch (parseError) {
+        this.logger.warn('Failed to parse push notification data:', parseError);
       }
-      
-    } catch (error) {
-      this.logger.error('Error processing push notification:', error);
+    }
+
+    if (!notification.emailAddress) {
+      this.logger.warn('Push notification has no emailAddress, ignoring');
+      return;
+    }
+
+    const account = await this.googleAuthService.getConnectedAccountByEmail(notification.emailAddress);
+
+    if (!account) {
+      this.logger.warn(`Push notification for unknown account ${notification.emailAddress}, ignoring`);
+      return;
+    }
+
+    if (this.isStaleNotification(account, notification.historyId)) {
+      this.logger.debug(
+        `Push notification for ${account.email} at history ${notification.historyId} is not newer than checkpoint ${account.historyId}, ignoring`
+      );
+      return;
+    }
+
+    await this.syncQueue.enqueue(account.id, SyncJobType.push);
+  }
+
+  private isStaleNotification(
+    account: AccountWithToken,
+    historyId?: string | number
+  ): boolean {
+    if (!account.historyId || historyId === undefined) {
+      return false;
+    }
+
+    try {
+      return BigInt(historyId) <= BigInt(account.historyId);
+    } catch {
+      return false;
     }
   }
 }
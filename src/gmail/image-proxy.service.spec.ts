@@ -0,0 +1,59 @@
+import { ForbiddenException } from '@nestjs/common';
+import { lookup } from 'dns';
+import { ImageProxyService } from './image-proxy.service';
+
+jest.mock('dns', () => ({ ...jest.requireActual<typeof import('dns')>('dns'), lookup: jest.fn() }));
+
+describe('ImageProxyService', () => {
+  const originalEnv = process.env;
+  let service: ImageProxyService;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, IMAGE_PROXY_SECRET: 'test-secret', APP_BASE_URL: 'https://archive.example.com/' };
+    service = new ImageProxyService();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  const signatureOf = (proxyUrl: string): string => new URL(proxyUrl).searchParams.get('sig') || '';
+
+  it('builds signed proxy URLs under the public base URL', () => {
+    const proxyUrl = service.proxyUrl('https://cdn.example.com/a.png');
+
+    expect(proxyUrl).toMatch(/^https:\/\/archive\.example\.com\/gmail\/image-proxy\?url=https%3A%2F%2Fcdn\.example\.com%2Fa\.png&sig=/);
+    expect(signatureOf(proxyUrl)).toBe(signatureOf(new ImageProxyService().proxyUrl('https://cdn.example.com/a.png')));
+  });
+
+  it('rejects URLs whose signature does not match', async () => {
+    const sig = signatureOf(service.proxyUrl('https://cdn.example.com/a.png'));
+
+    await expect(service.fetchImage('https://cdn.example.com/b.png', sig)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+
+  it.each(['http://127.0.0.1/a.png', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/a.png', 'file:///etc/passwd'])(
+    'refuses to fetch %s',
+    async (url) => {
+      await expect(service.fetchImage(url, signatureOf(service.proxyUrl(url)))).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+    },
+  );
+
+  it('checks the address it connects to, not an earlier resolution', async () => {
+    const addresses = [{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }];
+    (lookup as unknown as jest.Mock).mockImplementation(
+      (_host: string, _options: unknown, callback: (error: null, addresses: unknown[]) => void) =>
+        callback(null, addresses),
+    );
+    const url = 'http://rebind.example.com/a.png';
+
+    await expect(service.fetchImage(url, signatureOf(service.proxyUrl(url)))).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    expect(lookup).toHaveBeenCalledWith('rebind.example.com', expect.objectContaining({ all: true }), expect.any(Function));
+  });
+});
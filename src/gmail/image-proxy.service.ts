@@ -0,0 +1,204 @@
+import {
+  BadGatewayException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { lookup, LookupAddress } from 'dns';
+import { get as httpGet, IncomingMessage } from 'http';
+import { get as httpsGet } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { isInlineImageType } from '../mime/mime-part';
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10 * 1000;
+const MAX_REDIRECTS = 3;
+
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+class PrivateAddressError extends Error {
+  constructor() {
+    super('Image URL points to a private network address');
+  }
+}
+
+const isPrivateAddress = ({ address, family }: LookupAddress): boolean =>
+  privateAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+
+// Validates the addresses the socket actually connects to, so a hostname cannot resolve
+// to a public address for a check and to a private one for the connection
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '');
+    }
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      return callback(new PrivateAddressError(), '');
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+export interface ProxiedImage {
+  data: Buffer;
+  contentType: string;
+}
+
+@Injectable()
+export class ImageProxyService {
+  private readonly logger = new Logger(ImageProxyService.name);
+  private readonly secret: string;
+
+  constructor() {
+    this.secret = process.env.IMAGE_PROXY_SECRET || '';
+
+    if (!this.secret) {
+      this.logger.warn('IMAGE_PROXY_SECRET is not set; proxied image URLs will not survive a restart or work across replicas');
+      this.secret = randomBytes(32).toString('hex');
+    }
+  }
+
+  proxyUrl(url: string): string {
+    const baseUrl = (process.env.APP_BASE_URL || '').replace(/\/+$/, '');
+    const params = new URLSearchParams({ url, sig: this.sign(url) });
+    return `${baseUrl}/gmail/image-proxy?${params.toString()}`;
+  }
+
+  async fetchImage(url: string, signature: string): Promise<ProxiedImage> {
+    if (!this.isValidSignature(url, signature)) {
+      throw new ForbiddenException('Invalid image proxy signature');
+    }
+
+    let target = url;
+
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      const parsed = this.assertPublicUrl(target);
+      const response = await this.request(parsed);
+
+      const location = response.headers.location;
+      if (response.statusCode! >= 300 && response.statusCode! < 400 && location) {
+        response.resume();
+        target = new URL(location, parsed).toString();
+        continue;
+      }
+
+      if (response.statusCode !== 200) {
+        response.resume();
+        throw new BadGatewayException(`Remote image returned HTTP ${response.statusCode}`);
+      }
+
+      // SVG can carry script, so it is refused along with anything that is not a raster image
+      const contentType = response.headers['content-type'] || '';
+      if (!isInlineImageType(contentType.split(';')[0].trim())) {
+        response.resume();
+        throw new BadGatewayException(`Remote resource is not a supported image (${contentType || 'no content type'})`);
+      }
+
+      if (Number(response.headers['content-length']) > MAX_IMAGE_BYTES) {
+        response.destroy();
+        throw new BadGatewayException('Remote image is too large');
+      }
+
+      return { data: await this.readBody(response), contentType };
+    }
+
+    throw new BadGatewayException('Remote image redirected too many times');
+  }
+
+  private sign(url: string): string {
+    return createHmac('sha256', this.secret).update(url).digest('base64url');
+  }
+
+  private isValidSignature(url: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(url));
+    const provided = Buffer.from(signature || '');
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  private assertPublicUrl(url: string): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new ForbiddenException('Invalid image URL');
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new ForbiddenException(`Unsupported image URL protocol ${parsed.protocol}`);
+    }
+
+    // IP literals skip the lookup, so they are checked here; hostnames are checked on connect
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+    const family = isIP(hostname);
+    if (family && isPrivateAddress({ address: hostname, family })) {
+      throw new ForbiddenException('Image URL points to a private network address');
+    }
+
+    return parsed;
+  }
+
+  private request(url: URL): Promise<IncomingMessage> {
+    const get = url.protocol === 'https:' ? httpsGet : httpGet;
+
+    return new Promise((resolve, reject) => {
+      const request = get(url, { lookup: publicOnlyLookup, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }, resolve);
+      request.on('error', (error) => {
+        if (error instanceof PrivateAddressError) {
+          reject(new ForbiddenException(error.message));
+        } else {
+          reject(new BadGatewayException(`Failed to fetch remote image: ${error.message}`));
+        }
+      });
+    });
+  }
+
+  private async readBody(response: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    try {
+      for await (const chunk of response) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_IMAGE_BYTES) {
+          response.destroy();
+          throw new BadGatewayException('Remote image is too large');
+        }
+        chunks.push(chunk as Buffer);
+      }
+    } catch (error) {
+      if (error instanceof BadGatewayException) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new BadGatewayException(`Failed to fetch remote image: ${errorMessage}`);
+    }
+
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,168 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { gmail_v1 } from 'googleapis';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { withRetry } from '../common/google-api-errors';
+import { Account, Label, LabelType } from '../../generated/prisma';
+
+const BACKFILL_BATCH_SIZE = 200;
+
+// User label IDs look like "Label_123"; everything else Gmail hands out is a system label
+const guessLabelType = (gmailId: string): LabelType =>
+  gmailId.startsWith('Label_') ? LabelType.user : LabelType.system;
+
+@Injectable()
+export class LabelService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(LabelService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leaderElection: LeaderElectionService
+  ) {}
+
+  onApplicationBootstrap() {
+    void this.backfillEmailLabels().catch((error) => {
+      this.logger.error('Label backfill failed:', error);
+    });
+  }
+
+  async syncLabels(gmail: gmail_v1.Gmail, account: Pick<Account, 'id' | 'email'>): Promise<void> {
+    const response = await withRetry(
+      () => gmail.users.labels.list({ userId: 'me' }),
+      { logger: this.logger, label: `Label list for ${account.email}` }
+    );
+
+    const labels = (response.data.labels || []).filter(
+      (label): label is gmail_v1.Schema$Label & { id: string } => !!label.id
+    );
+
+    for (const label of labels) {
+      const data = {
+        name: label.name || label.id,
+        type: label.type === 'user' ? LabelType.user : LabelType.system,
+        textColor: label.color?.textColor ?? null,
+        backgroundColor: label.color?.backgroundColor ?? null,
+      };
+
+      await this.prisma.label.upsert({
+        where: { accountId_gmailId: { accountId: account.id, gmailId: label.id } },
+        create: { accountId: account.id, gmailId: label.id, ...data },
+        update: data,
+      });
+    }
+
+    // Labels deleted in Gmail take their email links with them
+    const { count } = await this.prisma.label.deleteMany({
+      where: { accountId: account.id, gmailId: { notIn: labels.map((label) => label.id) } },
+    });
+
+    await this.prisma.account.update({
+      where: { id: account.id },
+      data: { labelsSyncedAt: new Date() },
+    });
+
+    this.logger.debug(
+      `Synced ${labels.length} label(s) for ${account.email}${count > 0 ? `, removed ${count}` : ''}`
+    );
+  }
+
+  async linkEmailLabels(emailId: string, accountId: string, gmailLabelIds: string[]): Promise<void> {
+    const labels = await this.ensureLabels(accountId, gmailLabelIds);
+    const labelIds = labels.map((label) => label.id);
+
+    await this.prisma.$transaction([
+      this.prisma.emailLabel.deleteMany({ where: { emailId, labelId: { notIn: labelIds } } }),
+      this.prisma.emailLabel.createMany({
+        data: labelIds.map((labelId) => ({ emailId, labelId })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  async relabelMessage(accountId: string, messageId: string, gmailLabelIds: string[]): Promise<void> {
+    const email = await this.prisma.email.findUnique({
+      where: { accountId_messageId: { accountId, messageId } },
+      select: { id: true },
+    });
+
+    if (email) {
+      await this.linkEmailLabels(email.id, accountId, gmailLabelIds);
+    }
+  }
+
+  async listLabels(accountId?: string) {
+    const labels = await this.prisma.label.findMany({
+      where: accountId ? { accountId } : undefined,
+      orderBy: [{ accountId: 'asc' }, { type: 'asc' }, { name: 'asc' }],
+      include: {
+        _count: { select: { emails: { where: { email: { deletedAt: null } } } } },
+      },
+    });
+
+    return labels.map(({ _count, ...label }) => ({ ...label, emailCount: _count.emails }));
+  }
+
+  async backfillEmailLabels(): Promise<void> {
+    await this.leaderElection.runExclusive('label-backfill', 30 * 60 * 1000, async () => {
+      let cursor: string | undefined;
+      let processed = 0;
+
+      for (;;) {
+        const emails = await this.prisma.email.findMany({
+          where: {
+            labels: { none: {} },
+            NOT: { labelIds: { isEmpty: true } },
+            ...(cursor && { id: { gt: cursor } }),
+          },
+          orderBy: { id: 'asc' },
+          take: BACKFILL_BATCH_SIZE,
+          select: { id: true, accountId: true, labelIds: true },
+        });
+
+        if (emails.length === 0) {
+          break;
+        }
+
+        for (const email of emails) {
+          await this.linkEmailLabels(email.id, email.accountId, email.labelIds);
+        }
+
+        processed += emails.length;
+        cursor = emails[emails.length - 1].id;
+      }
+
+      if (processed > 0) {
+        this.logger.log(`Backfilled labels for ${processed} email(s)`);
+      }
+    });
+  }
+
+  // Messages can carry labels we have not listed yet; placeholders are renamed on the next label sync
+  private async ensureLabels(accountId: string, gmailLabelIds: string[]): Promise<Label[]> {
+    if (gmailLabelIds.length === 0) {
+      return [];
+    }
+
+    const { count } = await this.prisma.label.createMany({
+      data: gmailLabelIds.map((gmailId) => ({
+        accountId,
+        gmailId,
+        name: gmailId,
+        type: guessLabelType(gmailId),
+      })),
+      skipDuplicates: true,
+    });
+
+    // Makes the next sync job list labels, which fills in the placeholders' names and colours
+    if (count > 0) {
+      await this.prisma.account.updateMany({
+        where: { id: accountId },
+        data: { labelsSyncedAt: null },
+      });
+    }
+
+    return this.prisma.label.findMany({
+      where: { accountId, gmailId: { in: gmailLabelIds } },
+    });
+  }
+}
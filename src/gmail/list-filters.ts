@@ -0,0 +1,121 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '../../generated/prisma';
+import { ListEmailsQueryDto } from './dto/list-emails-query.dto';
+import { ListAttachmentsQueryDto } from './dto/list-attachments-query.dto';
+import { ListParams, pastCursor } from './list-query';
+
+const contains = (value: string) => ({ contains: value, mode: 'insensitive' as const });
+
+// "image/*" matches a whole top-level type, anything else must match exactly
+const mimeTypeFilter = (mimeType: string): Prisma.StringFilter =>
+  mimeType.endsWith('/*')
+    ? { startsWith: mimeType.slice(0, -1), mode: 'insensitive' }
+    : { equals: mimeType, mode: 'insensitive' };
+
+const parseDateRange = (after?: string, before?: string) => {
+  const from = after ? new Date(after) : undefined;
+  const to = before ? new Date(before) : undefined;
+
+  if (from && to && from >= to) {
+    throw new BadRequestException('after must be earlier than before');
+  }
+
+  return from || to ? { ...(from && { gte: from }), ...(to && { lt: to }) } : undefined;
+};
+
+const recipientFilter = (to: string): Prisma.EmailWhereInput => ({
+  OR: [{ recipients: contains(to) }, { cc: contains(to) }, { bcc: contains(to) }],
+});
+
+export function buildEmailFilters(query: ListEmailsQueryDto): Prisma.EmailWhereInput[] {
+  const dateRange = parseDateRange(query.after, query.before);
+  const filters: Prisma.EmailWhereInput[] = [{ deletedAt: null }];
+
+  if (query.accountId) {
+    filters.push({ accountId: query.accountId });
+  }
+  if (query.threadId) {
+    filters.push({ threadId: query.threadId });
+  }
+  if (query.from) {
+    filters.push({ sender: contains(query.from) });
+  }
+  if (query.to) {
+    filters.push(recipientFilter(query.to));
+  }
+  if (dateRange) {
+    filters.push({ date: dateRange });
+  }
+  if (query.hasAttachments !== undefined) {
+    filters.push({ attachments: query.hasAttachments ? { some: {} } : { none: {} } });
+  }
+  if (query.attachmentType) {
+    filters.push({ attachments: { some: { mimeType: mimeTypeFilter(query.attachmentType) } } });
+  }
+  if (query.category) {
+    filters.push({ category: query.category });
+  }
+  if (query.label) {
+    // Labels can be given by Gmail ID ("INBOX", "Label_12") or by display name
+    filters.push({
+      labels: {
+        some: {
+          label: {
+            OR: [{ gmailId: query.label }, { name: { equals: query.label, mode: 'insensitive' } }],
+          },
+        },
+      },
+    });
+  }
+
+  return filters;
+}
+
+export function buildAttachmentFilters(query: ListAttachmentsQueryDto): Prisma.AttachmentWhereInput[] {
+  const dateRange = parseDateRange(query.after, query.before);
+  const filters: Prisma.AttachmentWhereInput[] = [{ email: { deletedAt: null } }];
+
+  if (query.accountId) {
+    filters.push({ accountId: query.accountId });
+  }
+  if (query.threadId) {
+    filters.push({ email: { threadId: query.threadId } });
+  }
+  if (query.from) {
+    filters.push({ email: { sender: contains(query.from) } });
+  }
+  if (query.to) {
+    filters.push({ email: recipientFilter(query.to) });
+  }
+  if (dateRange) {
+    filters.push({ createdAt: dateRange });
+  }
+  if (query.mimeType) {
+    filters.push({ mimeType: mimeTypeFilter(query.mimeType) });
+  }
+  if (query.status) {
+    filters.push({ status: query.status });
+  }
+
+  return filters;
+}
+
+export function emailCursorFilter(params: ListParams): Prisma.EmailWhereInput {
+  if (!params.cursor) {
+    return {};
+  }
+
+  const { date, id } = params.cursor;
+  return { OR: [{ date: pastCursor(date, params.sort) }, { date, id: pastCursor(id, params.sort) }] };
+}
+
+export function attachmentCursorFilter(params: ListParams): Prisma.AttachmentWhereInput {
+  if (!params.cursor) {
+    return {};
+  }
+
+  const { date, id } = params.cursor;
+  return {
+    OR: [{ createdAt: pastCursor(date, params.sort) }, { createdAt: date, id: pastCursor(id, params.sort) }],
+  };
+}
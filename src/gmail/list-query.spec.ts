@@ -0,0 +1,117 @@
+import { BadRequestException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { decodeCursor, encodeCursor, parseListParams, toKeysetPage } from './list-query';
+import { buildEmailFilters, emailCursorFilter } from './list-filters';
+import { ListEmailsQueryDto } from './dto/list-emails-query.dto';
+
+const validateQuery = (query: Record<string, string>) => {
+  const dto = plainToInstance(ListEmailsQueryDto, query);
+  return { dto, errors: validateSync(dto, { whitelist: true }) };
+};
+
+describe('list query parameters', () => {
+  const date = new Date('2024-03-01T09:30:00.000Z');
+
+  it('applies defaults', () => {
+    expect(parseListParams({}, 10)).toEqual({
+      limit: 10,
+      sort: 'newest',
+      cursor: undefined,
+      includeTotal: false,
+    });
+  });
+
+  it('converts query strings into typed values', () => {
+    const { dto, errors } = validateQuery({ limit: '25', includeTotal: 'true', hasAttachments: 'false' });
+
+    expect(errors).toEqual([]);
+    expect(dto).toMatchObject({ limit: 25, includeTotal: true, hasAttachments: false });
+  });
+
+  it.each([
+    [{ limit: '0' }, 'limit'],
+    [{ limit: '101' }, 'limit'],
+    [{ limit: 'ten' }, 'limit'],
+    [{ sort: 'subject' }, 'sort'],
+    [{ includeTotal: 'yes' }, 'includeTotal'],
+    [{ after: 'yesterday' }, 'after'],
+    [{ hasAttachments: '1' }, 'hasAttachments'],
+    [{ attachmentType: 'pdf' }, 'attachmentType'],
+    [{ category: 'newsletters' }, 'category'],
+    [{ accountId: 'account-1' }, 'accountId'],
+  ])('rejects %j', (query, property) => {
+    expect(validateQuery(query).errors.map((error) => error.property)).toEqual([property]);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => parseListParams({ cursor: 'not-a-cursor' }, 10)).toThrow(
+      new BadRequestException('Invalid cursor'),
+    );
+  });
+
+  it('round-trips cursors and ties them to a sort order', () => {
+    const cursor = encodeCursor({ id: 'email-1' }, date, 'oldest');
+
+    expect(decodeCursor(cursor, 'oldest')).toEqual({ date, id: 'email-1' });
+    expect(() => decodeCursor(cursor, 'newest')).toThrow(BadRequestException);
+  });
+
+  it('only returns a next cursor when an extra row was fetched', () => {
+    const params = parseListParams({ limit: 2 }, 10);
+    const rows = [
+      { id: 'a', date },
+      { id: 'b', date },
+      { id: 'c', date },
+    ];
+
+    const page = toKeysetPage(rows, params, (row) => row.date);
+    expect(page.items.map((row) => row.id)).toEqual(['a', 'b']);
+    expect(decodeCursor(page.nextCursor!, 'newest')).toEqual({ date, id: 'b' });
+
+    expect(toKeysetPage(rows.slice(0, 2), params, (row) => row.date).nextCursor).toBeNull();
+  });
+
+  it('continues after the cursor on (date, id)', () => {
+    const params = parseListParams({ cursor: encodeCursor({ id: 'email-1' }, date, 'newest') }, 10);
+
+    expect(emailCursorFilter(params)).toEqual({
+      OR: [{ date: { lt: date } }, { date, id: { lt: 'email-1' } }],
+    });
+  });
+});
+
+describe('email list filters', () => {
+  it('builds filters for each supported parameter', () => {
+    expect(
+      buildEmailFilters({
+        accountId: 'account-1',
+        from: 'alice',
+        to: 'bob@example.com',
+        after: '2024-01-01',
+        hasAttachments: true,
+        attachmentType: 'image/*',
+      }),
+    ).toEqual([
+      { deletedAt: null },
+      { accountId: 'account-1' },
+      { sender: { contains: 'alice', mode: 'insensitive' } },
+      {
+        OR: [
+          { recipients: { contains: 'bob@example.com', mode: 'insensitive' } },
+          { cc: { contains: 'bob@example.com', mode: 'insensitive' } },
+          { bcc: { contains: 'bob@example.com', mode: 'insensitive' } },
+        ],
+      },
+      { date: { gte: new Date('2024-01-01') } },
+      { attachments: { some: {} } },
+      { attachments: { some: { mimeType: { startsWith: 'image/', mode: 'insensitive' } } } },
+    ]);
+  });
+
+  it('rejects an empty date range', () => {
+    expect(() => buildEmailFilters({ after: '2024-02-01', before: '2024-01-01' })).toThrow(
+      'after must be earlier than before',
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type SortOrder = 'newest' | 'oldest';
+
+export const SORT_ORDERS: SortOrder[] = ['newest', 'oldest'];
+
+// type/subtype, or type/* to match a whole top-level type
+export const MIME_TYPE_PATTERN = /^[\w.+-]+\/(?:\*|[\w.+-]+)$/;
+
+export interface ListCursor {
+  date: Date;
+  id: string;
+}
+
+export interface ListParams {
+  limit: number;
+  sort: SortOrder;
+  cursor?: ListCursor;
+  includeTotal: boolean;
+}
+
+export interface ListQuery {
+  limit?: number;
+  sort?: SortOrder;
+  cursor?: string;
+  includeTotal?: boolean;
+}
+
+export interface KeysetPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+// The sort order is part of the cursor so a cursor cannot be replayed against the other direction
+export function encodeCursor(item: { id: string }, date: Date, sort: SortOrder): string {
+  return Buffer.from(JSON.stringify([date.toISOString(), item.id, sort])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: SortOrder): ListCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 3) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  const [isoDate, id, cursorSort] = decoded as unknown[];
+  const date = typeof isoDate === 'string' ? new Date(isoDate) : null;
+
+  if (!date || isNaN(date.getTime()) || typeof id !== 'string' || !id) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (cursorSort !== sort) {
+    throw new BadRequestException(`Cursor was issued for sort=${String(cursorSort)}, not sort=${sort}`);
+  }
+
+  return { date, id };
+}
+
+export function parseListParams(query: ListQuery, defaultLimit: number): ListParams {
+  const sort = query.sort ?? 'newest';
+
+  return {
+    limit: query.limit ?? defaultLimit,
+    sort,
+    cursor: query.cursor ? decodeCursor(query.cursor, sort) : undefined,
+    includeTotal: query.includeTotal ?? false,
+  };
+}
+
+export const sortDirection = (sort: SortOrder): 'asc' | 'desc' =>
+  sort === 'newest' ? 'desc' : 'asc';
+
+// Rows after the cursor in the requested sort order
+export const pastCursor = <T>(value: T, sort: SortOrder): { lt: T } | { gt: T } =>
+  sort === 'newest' ? { lt: value } : { gt: value };
+
+// Callers fetch limit + 1 rows; the extra row only signals that another page exists
+export function toKeysetPage<T extends { id: string }>(
+  rows: T[],
+  params: ListParams,
+  dateOf: (row: T) => Date
+): KeysetPage<T> {
+  const items = rows.slice(0, params.limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: rows.length > params.limit && last ? encodeCursor(last, dateOf(last), params.sort) : null,
+  };
+}
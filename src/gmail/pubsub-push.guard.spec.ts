@@ -0,0 +1,185 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { PubSubPushGuard } from './pubsub-push.guard';
+
+const AUDIENCE = 'https://earc.example.com/webhook/gmail';
+const SERVICE_ACCOUNT = 'gmail-push@earc.iam.gserviceaccount.com';
+
+const base64url = (value: object): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signJwt = (
+  privateKey: KeyObject,
+  kid: string,
+  claims: Record<string, unknown> = {},
+): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url({ alg: 'RS256', typ: 'JWT', kid });
+  const payload = base64url({
+    iss: 'https://accounts.google.com',
+    aud: AUDIENCE,
+    email: SERVICE_ACCOUNT,
+    email_verified: true,
+    sub: '112233445566',
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  });
+  const signature = sign(
+    'RSA-SHA256',
+    Buffer.from(`${header}.${payload}`),
+    privateKey,
+  ).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+const contextFor = (request: {
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+}): ExecutionContext =>
+  ({
+    switchToHttp: () => ({
+      getRequest: () => ({ headers: {}, query: {}, ...request }),
+    }),
+  }) as unknown as ExecutionContext;
+
+describe('PubSubPushGuard', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const { privateKey: foreignKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+
+  let server: Server;
+  let jwksRequests: number;
+  const originalEnv = process.env;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      jwksRequests++;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          keys: [
+            { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'RS256', use: 'sig' },
+          ],
+        }),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jwksRequests = 0;
+    const { port } = server.address() as AddressInfo;
+    process.env = {
+      ...originalEnv,
+      PUBSUB_AUTH_MODE: 'oidc',
+      PUBSUB_JWKS_URL: `http://127.0.0.1:${port}/certs`,
+      PUBSUB_AUDIENCE: AUDIENCE,
+      PUBSUB_SERVICE_ACCOUNT_EMAIL: SERVICE_ACCOUNT,
+      PUBSUB_VERIFICATION_TOKEN: 's3cret-token',
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('oidc mode', () => {
+    it('accepts a token signed by a key from the JWKS endpoint', async () => {
+      const guard = new PubSubPushGuard();
+      const jwt = signJwt(privateKey, 'key-1');
+
+      await expect(
+        guard.canActivate(contextFor({ headers: { authorization: `Bearer ${jwt}` } })),
+      ).resolves.toBe(true);
+    });
+
+    it('caches the JWKS between requests', async () => {
+      const guard = new PubSubPushGuard();
+      const context = contextFor({
+        headers: { authorization: `Bearer ${signJwt(privateKey, 'key-1')}` },
+      });
+
+      await guard.canActivate(context);
+      await guard.canActivate(context);
+
+      expect(jwksRequests).toBe(1);
+    });
+
+    it('rejects requests without a bearer token', async () => {
+      const guard = new PubSubPushGuard();
+
+      await expect(guard.canActivate(contextFor({}))).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+
+    it('rejects tokens signed by an unknown key', async () => {
+      const guard = new PubSubPushGuard();
+      const jwt = signJwt(foreignKey, 'key-1');
+
+      await expect(
+        guard.canActivate(contextFor({ headers: { authorization: `Bearer ${jwt}` } })),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it.each([
+      ['audience', { aud: 'https://attacker.example.com' }],
+      ['issuer', { iss: 'https://issuer.example.com' }],
+      ['service account', { email: 'someone@example.iam.gserviceaccount.com' }],
+      ['unverified email', { email_verified: false }],
+      ['expiry', { iat: 1000, exp: 2000 }],
+    ])('rejects tokens with the wrong %s', async (_, claims) => {
+      const guard = new PubSubPushGuard();
+      const jwt = signJwt(privateKey, 'key-1', claims);
+
+      await expect(
+        guard.canActivate(contextFor({ headers: { authorization: `Bearer ${jwt}` } })),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('rejects every request when the audience is not configured', async () => {
+      delete process.env.PUBSUB_AUDIENCE;
+      const guard = new PubSubPushGuard();
+      const jwt = signJwt(privateKey, 'key-1');
+
+      await expect(
+        guard.canActivate(contextFor({ headers: { authorization: `Bearer ${jwt}` } })),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+  });
+
+  describe('token mode', () => {
+    beforeEach(() => {
+      process.env.PUBSUB_AUTH_MODE = 'token';
+    });
+
+    it('accepts the shared secret in the query string', async () => {
+      const guard = new PubSubPushGuard();
+
+      await expect(
+        guard.canActivate(contextFor({ query: { token: 's3cret-token' } })),
+      ).resolves.toBe(true);
+    });
+
+    it('rejects a wrong or missing shared secret', async () => {
+      const guard = new PubSubPushGuard();
+
+      await expect(
+        guard.canActivate(contextFor({ query: { token: 'guess' } })),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      await expect(guard.canActivate(contextFor({}))).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { google } from 'googleapis';
+import { createPublicKey, JsonWebKey, timingSafeEqual } from 'crypto';
+
+export type PubSubAuthMode = 'oidc' | 'token';
+
+interface JwksCache {
+  keys: Record<string, string>;
+  expiresAt: number;
+}
+
+const DEFAULT_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const DEFAULT_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+const DEFAULT_JWKS_TTL_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class PubSubPushGuard implements CanActivate {
+  private readonly logger = new Logger(PubSubPushGuard.name);
+  private readonly mode: PubSubAuthMode;
+  private readonly jwksUrl: string;
+  private readonly audience?: string;
+  private readonly issuers: string[];
+  private readonly serviceAccountEmail?: string;
+  private readonly verificationToken?: string;
+  private jwksCache: JwksCache | null = null;
+
+  constructor() {
+    this.mode = process.env.PUBSUB_AUTH_MODE === 'token' ? 'token' : 'oidc';
+    this.jwksUrl = process.env.PUBSUB_JWKS_URL || DEFAULT_JWKS_URL;
+    this.audience = process.env.PUBSUB_AUDIENCE;
+    this.issuers = process.env.PUBSUB_ISSUERS
+      ? process.env.PUBSUB_ISSUERS.split(',').map((issuer) => issuer.trim())
+      : DEFAULT_ISSUERS;
+    this.serviceAccountEmail = process.env.PUBSUB_SERVICE_ACCOUNT_EMAIL;
+    this.verificationToken = process.env.PUBSUB_VERIFICATION_TOKEN;
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    try {
+      if (this.mode === 'token') {
+        this.verifyQueryToken(request);
+      } else {
+        await this.verifyOidcToken(request);
+      }
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Rejected Pub/Sub push request: ${errorMessage}`);
+      throw new UnauthorizedException('Invalid Pub/Sub push credentials');
+    }
+  }
+
+  private verifyQueryToken(request: Request): void {
+    if (!this.verificationToken) {
+      throw new Error('PUBSUB_VERIFICATION_TOKEN is not configured');
+    }
+
+    const token = request.query.token;
+    if (typeof token !== 'string') {
+      throw new Error('Missing token query parameter');
+    }
+
+    const expected = Buffer.from(this.verificationToken);
+    const received = Buffer.from(token);
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new Error('Token query parameter does not match');
+    }
+  }
+
+  private async verifyOidcToken(request: Request): Promise<void> {
+    if (!this.audience || !this.serviceAccountEmail) {
+      throw new Error('PUBSUB_AUDIENCE and PUBSUB_SERVICE_ACCOUNT_EMAIL must be configured');
+    }
+
+    const authorization = request.headers.authorization;
+    if (!authorization?.startsWith('Bearer ')) {
+      throw new Error('Missing bearer token');
+    }
+
+    const jwt = authorization.slice('Bearer '.length).trim();
+    const keys = await this.getSigningKeys(this.getKeyId(jwt));
+
+    const client = new google.auth.OAuth2();
+    const ticket = await client.verifySignedJwtWithCertsAsync(
+      jwt,
+      keys,
+      this.audience,
+      this.issuers
+    );
+
+    const payload = ticket.getPayload();
+    if (!payload?.email || payload.email !== this.serviceAccountEmail) {
+      throw new Error(`Unexpected service account: ${payload?.email || 'none'}`);
+    }
+
+    if (!payload.email_verified) {
+      throw new Error(`Service account email ${payload.email} is not verified`);
+    }
+  }
+
+  private getKeyId(jwt: string): string | undefined {
+    try {
+      const header = JSON.parse(
+        Buffer.from(jwt.split('.')[0], 'base64url').toString('utf8')
+      ) as { kid?: string };
+      return header.kid;
+    } catch {
+      throw new Error('Malformed bearer token');
+    }
+  }
+
+  private async getSigningKeys(keyId?: string): Promise<Record<string, string>> {
+    const cached = this.jwksCache;
+    const isFresh = cached && cached.expiresAt > Date.now();
+
+    if (cached && isFresh && (!keyId || keyId in cached.keys)) {
+      return cached.keys;
+    }
+
+    this.jwksCache = await this.fetchJwks();
+    return this.jwksCache.keys;
+  }
+
+  private async fetchJwks(): Promise<JwksCache> {
+    const response = await fetch(this.jwksUrl);
+    if (!response.ok) {
+      throw new Error(`JWKS request to ${this.jwksUrl} failed with status ${response.status}`);
+    }
+
+    const body = (await response.json()) as { keys?: (JsonWebKey & { kid?: string })[] };
+    const keys: Record<string, string> = {};
+
+    for (const jwk of body.keys || []) {
+      if (!jwk.kid) {
+        continue;
+      }
+      keys[jwk.kid] = createPublicKey({ key: jwk, format: 'jwk' })
+        .export({ type: 'spki', format: 'pem' })
+        .toString();
+    }
+
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+
+    return {
+      keys,
+      expiresAt: Date.now() + (maxAge ? Number(maxAge[1]) * 1000 : DEFAULT_JWKS_TTL_MS),
+    };
+  }
+}
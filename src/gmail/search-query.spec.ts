@@ -0,0 +1,47 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseSearchQuery } from './search-query';
+
+describe('parseSearchQuery', () => {
+  it('separates operators from free text', () => {
+    expect(
+      parseSearchQuery('from:alice@example.com to:bob subject:"weekly sync" quarterly report'),
+    ).toEqual({
+      from: ['alice@example.com'],
+      to: ['bob'],
+      subject: ['weekly sync'],
+      filenames: [],
+      hasAttachment: false,
+      text: 'quarterly report',
+    });
+  });
+
+  it('parses attachment operators', () => {
+    expect(parseSearchQuery('has:attachment filename:pdf')).toMatchObject({
+      hasAttachment: true,
+      filenames: ['pdf'],
+      text: '',
+    });
+  });
+
+  it('parses before and after dates as UTC days', () => {
+    const query = parseSearchQuery('after:2024/01/15 before:2024-02-01');
+
+    expect(query.after).toEqual(new Date('2024-01-15T00:00:00.000Z'));
+    expect(query.before).toEqual(new Date('2024-02-01T00:00:00.000Z'));
+  });
+
+  it('keeps phrases, exclusions and unknown operators in the free text', () => {
+    expect(parseSearchQuery('"release notes" -draft label:inbox').text).toBe(
+      '"release notes" -draft label:inbox',
+    );
+  });
+
+  it.each([
+    ['an invalid date', 'after:2024/02/30'],
+    ['an unsupported has: value', 'has:drive'],
+    ['a negated operator', '-from:alice'],
+    ['an empty quoted value', 'subject:""'],
+  ])('rejects %s', (_, query) => {
+    expect(() => parseSearchQuery(query)).toThrow(BadRequestException);
+  });
+});
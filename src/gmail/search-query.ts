@@ -0,0 +1,92 @@
+import { BadRequestException } from '@nestjs/common';
+
+export interface ParsedSearchQuery {
+  from: string[];
+  to: string[];
+  subject: string[];
+  filenames: string[];
+  hasAttachment: boolean;
+  before?: Date;
+  after?: Date;
+  text: string;
+}
+
+const TOKEN_PATTERN = /(-?)(?:(\w+):)?("[^"]*"?|\S+)/g;
+const DATE_PATTERN = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/;
+
+const unquote = (value: string): string => value.replace(/^"|"$/g, '').trim();
+
+const OPERATORS = new Set(['from', 'to', 'subject', 'filename', 'has', 'before', 'after']);
+
+const parseDate = (operator: string, value: string): Date => {
+  const match = DATE_PATTERN.exec(value);
+
+  if (match) {
+    const [, year, month, day] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+      return date;
+    }
+  }
+
+  throw new BadRequestException(`Invalid date for ${operator}: "${value}", expected YYYY/MM/DD`);
+};
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    from: [],
+    to: [],
+    subject: [],
+    filenames: [],
+    hasAttachment: false,
+    text: '',
+  };
+  const text: string[] = [];
+
+  for (const [token, negated, operator, rawValue] of query.matchAll(TOKEN_PATTERN)) {
+    if (!operator || !OPERATORS.has(operator.toLowerCase())) {
+      text.push(token);
+      continue;
+    }
+
+    if (negated) {
+      throw new BadRequestException(`Negated search operators are not supported: ${token}`);
+    }
+
+    const value = unquote(rawValue);
+
+    if (!value) {
+      throw new BadRequestException(`Missing value for ${operator}:`);
+    }
+
+    switch (operator.toLowerCase()) {
+      case 'from':
+        parsed.from.push(value);
+        break;
+      case 'to':
+        parsed.to.push(value);
+        break;
+      case 'subject':
+        parsed.subject.push(value);
+        break;
+      case 'filename':
+        parsed.filenames.push(value);
+        break;
+      case 'has':
+        if (value.toLowerCase() !== 'attachment') {
+          throw new BadRequestException(`Unsupported search operator has:${value}`);
+        }
+        parsed.hasAttachment = true;
+        break;
+      case 'before':
+        parsed.before = parseDate(operator, value);
+        break;
+      case 'after':
+        parsed.after = parseDate(operator, value);
+        break;
+    }
+  }
+
+  parsed.text = text.join(' ');
+  return parsed;
+}
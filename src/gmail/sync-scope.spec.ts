@@ -0,0 +1,84 @@
+import {
+  buildListQuery,
+  entersScopeByLabels,
+  getListLabelIds,
+  getMaxMessages,
+  getOutOfScopeReason,
+  getWatchLabelFilter,
+  SyncScope,
+} from './sync-scope';
+
+describe('sync scope', () => {
+  const scope: SyncScope = {
+    skipSpamTrashDrafts: true,
+    syncMaxMessages: null,
+    syncAfter: null,
+    syncQuery: null,
+    syncLabelAllowlist: [],
+    syncLabelDenylist: [],
+  };
+  const date = new Date('2024-06-01T12:00:00Z');
+
+  it('falls back to the default backfill sizes', () => {
+    expect(getMaxMessages(scope, true)).toBe(2000);
+    expect(getMaxMessages(scope, false)).toBe(100);
+    expect(getMaxMessages({ ...scope, syncMaxMessages: 250 }, true)).toBe(250);
+  });
+
+  it('combines the sync query with the date cutoff', () => {
+    expect(buildListQuery(scope)).toBeUndefined();
+    expect(
+      buildListQuery({
+        ...scope,
+        syncQuery: ' from:boss OR has:attachment ',
+        syncAfter: new Date('2024-01-01T00:00:00Z'),
+      }),
+    ).toBe('(from:boss OR has:attachment) after:1704067199');
+  });
+
+  it('only pushes a single allowed label down to messages.list', () => {
+    expect(getListLabelIds({ ...scope, syncLabelAllowlist: ['INBOX'] })).toEqual(['INBOX']);
+    expect(getListLabelIds({ ...scope, syncLabelAllowlist: ['INBOX', 'Label_1'] })).toBeUndefined();
+  });
+
+  it.each([
+    [{}, ['DRAFT'], 'is in spam, trash or drafts'],
+    [{ syncLabelDenylist: ['CATEGORY_PROMOTIONS'] }, ['INBOX', 'CATEGORY_PROMOTIONS'], 'has denied label CATEGORY_PROMOTIONS'],
+    [{ syncLabelAllowlist: ['Label_1'] }, ['INBOX'], 'has none of the allowed labels'],
+    [{ syncAfter: new Date('2024-07-01T00:00:00Z') }, ['INBOX'], 'is older than the 2024-07-01T00:00:00.000Z cutoff'],
+  ])('rejects messages outside the scope %#', (overrides, labelIds, reason) => {
+    expect(getOutOfScopeReason({ ...scope, ...overrides }, labelIds, date)).toBe(reason);
+  });
+
+  it('accepts messages inside the scope', () => {
+    expect(getOutOfScopeReason({ ...scope, syncLabelAllowlist: ['INBOX'] }, ['INBOX'], date)).toBeNull();
+    expect(getOutOfScopeReason({ ...scope, skipSpamTrashDrafts: false }, ['TRASH'], date)).toBeNull();
+  });
+
+  it('detects label changes that bring a message into scope', () => {
+    expect(entersScopeByLabels(scope, ['SPAM'], ['INBOX'])).toBe(true);
+    expect(entersScopeByLabels({ ...scope, syncLabelAllowlist: ['Label_1'] }, ['INBOX'], ['INBOX', 'Label_1'])).toBe(true);
+    expect(entersScopeByLabels(scope, ['INBOX', 'UNREAD'], ['INBOX'])).toBe(false);
+    expect(entersScopeByLabels(scope, ['SPAM'], ['TRASH'])).toBe(false);
+    expect(
+      entersScopeByLabels({ ...scope, syncAfter: new Date('2999-01-01T00:00:00Z') }, ['TRASH'], ['INBOX']),
+    ).toBe(true);
+  });
+
+  it('derives the watch filter from the label lists before the watch settings', () => {
+    const watch = { watchLabelIds: ['INBOX'], watchLabelFilterAction: 'include' };
+
+    expect(getWatchLabelFilter({ ...scope, ...watch, syncLabelAllowlist: ['Label_1'] })).toEqual({
+      labelIds: ['Label_1'],
+      labelFilterAction: 'include',
+    });
+    expect(getWatchLabelFilter({ ...scope, ...watch, syncLabelDenylist: ['SPAM'] })).toEqual({
+      labelIds: ['SPAM'],
+      labelFilterAction: 'exclude',
+    });
+    expect(getWatchLabelFilter({ ...scope, ...watch })).toEqual({
+      labelIds: ['INBOX'],
+      labelFilterAction: 'include',
+    });
+  });
+});
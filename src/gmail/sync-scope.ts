@@ -0,0 +1,104 @@
+import { Account } from '../../generated/prisma';
+
+export const SKIPPED_SYSTEM_LABELS = ['SPAM', 'TRASH', 'DRAFT'];
+
+export const DEFAULT_INITIAL_SYNC_MESSAGES = 2000;
+export const DEFAULT_SYNC_MESSAGES = 100;
+
+export type SyncScope = Pick<
+  Account,
+  | 'skipSpamTrashDrafts'
+  | 'syncMaxMessages'
+  | 'syncAfter'
+  | 'syncQuery'
+  | 'syncLabelAllowlist'
+  | 'syncLabelDenylist'
+>;
+
+export interface WatchLabelFilter {
+  labelIds: string[];
+  labelFilterAction: string;
+}
+
+export function getMaxMessages(scope: SyncScope, isInitialSync: boolean): number {
+  return scope.syncMaxMessages ?? (isInitialSync ? DEFAULT_INITIAL_SYNC_MESSAGES : DEFAULT_SYNC_MESSAGES);
+}
+
+export function buildListQuery(scope: SyncScope): string | undefined {
+  const terms: string[] = [];
+
+  if (scope.syncQuery?.trim()) {
+    terms.push(`(${scope.syncQuery.trim()})`);
+  }
+
+  if (scope.syncAfter) {
+    // Gmail accepts epoch seconds for after:, which avoids its day-granularity timezone handling
+    terms.push(`after:${Math.floor(scope.syncAfter.getTime() / 1000) - 1}`);
+  }
+
+  return terms.length > 0 ? terms.join(' ') : undefined;
+}
+
+// messages.list ANDs its labelIds, so only a single allowed label can be pushed down to Gmail
+export function getListLabelIds(scope: SyncScope): string[] | undefined {
+  return scope.syncLabelAllowlist.length === 1 ? scope.syncLabelAllowlist : undefined;
+}
+
+export function getOutOfScopeReason(
+  scope: SyncScope,
+  labelIds: string[] | null | undefined,
+  date: Date
+): string | null {
+  const labels = labelIds ?? [];
+
+  if (scope.skipSpamTrashDrafts && labels.some((id) => SKIPPED_SYSTEM_LABELS.includes(id))) {
+    return 'is in spam, trash or drafts';
+  }
+
+  const denied = labels.find((id) => scope.syncLabelDenylist.includes(id));
+  if (denied) {
+    return `has denied label ${denied}`;
+  }
+
+  if (
+    scope.syncLabelAllowlist.length > 0 &&
+    !labels.some((id) => scope.syncLabelAllowlist.includes(id))
+  ) {
+    return 'has none of the allowed labels';
+  }
+
+  if (scope.syncAfter && date < scope.syncAfter) {
+    return `is older than the ${scope.syncAfter.toISOString()} cutoff`;
+  }
+
+  return null;
+}
+
+// Only the label rules can change with a label change; the date cutoff and sync query are checked when storing
+export function entersScopeByLabels(
+  scope: SyncScope,
+  previousLabelIds: string[],
+  labelIds: string[]
+): boolean {
+  const labelScope = { ...scope, syncAfter: null };
+  const now = new Date();
+
+  return (
+    getOutOfScopeReason(labelScope, previousLabelIds, now) !== null &&
+    getOutOfScopeReason(labelScope, labelIds, now) === null
+  );
+}
+
+export function getWatchLabelFilter(
+  account: SyncScope & Pick<Account, 'watchLabelIds' | 'watchLabelFilterAction'>
+): WatchLabelFilter {
+  if (account.syncLabelAllowlist.length > 0) {
+    return { labelIds: account.syncLabelAllowlist, labelFilterAction: 'include' };
+  }
+
+  if (account.syncLabelDenylist.length > 0) {
+    return { labelIds: account.syncLabelDenylist, labelFilterAction: 'exclude' };
+  }
+
+  return { labelIds: account.watchLabelIds, labelFilterAction: account.watchLabelFilterAction };
+}
@@ -0,0 +1,72 @@
+import { google, gmail_v1 } from 'googleapis';
+import { ThreadBackfillService } from './thread-backfill.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { GoogleAuthService } from '../auth/google-auth.service';
+
+describe('ThreadBackfillService', () => {
+  const prisma = {
+    email: { findMany: jest.fn(), update: jest.fn() },
+  };
+  const leaderElection = {
+    runExclusive: jest.fn((_name: string, _ttl: number, task: () => Promise<void>) => task()),
+  };
+  const googleAuthService = {
+    getConnectedAccount: jest.fn(),
+    getAuthenticatedClient: jest.fn(),
+  };
+  const gmail = { users: { messages: { get: jest.fn() } } };
+
+  const email = (id: string, accountId = 'account-1') => ({ id, accountId, messageId: `m-${id}` });
+  const updates = () =>
+    (prisma.email.update.mock.calls as [{ where: { id: string }; data: { threadId: string } }][]).map(
+      ([{ where, data }]) => [where.id, data.threadId],
+    );
+
+  let service: ThreadBackfillService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(google, 'gmail').mockReturnValue(gmail as unknown as gmail_v1.Gmail);
+    googleAuthService.getConnectedAccount.mockImplementation((id: string) =>
+      Promise.resolve(id === 'account-1' ? { id, token: { id } } : null),
+    );
+    googleAuthService.getAuthenticatedClient.mockResolvedValue({});
+    service = new ThreadBackfillService(
+      prisma as unknown as PrismaService,
+      leaderElection as unknown as LeaderElectionService,
+      googleAuthService as unknown as GoogleAuthService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("fills in Gmail's thread ID, or a thread of its own when Gmail cannot tell", async () => {
+    prisma.email.findMany
+      .mockResolvedValueOnce([email('e1'), email('e2'), email('e3', 'account-2')])
+      .mockResolvedValueOnce([]);
+    gmail.users.messages.get
+      .mockResolvedValueOnce({ data: { threadId: 'thread-1' } })
+      .mockRejectedValueOnce(Object.assign(new Error('Not Found'), { status: 404 }));
+
+    await service.backfillThreadIds();
+
+    expect(gmail.users.messages.get).toHaveBeenCalledWith({ userId: 'me', id: 'm-e1', format: 'minimal' });
+    expect(updates()).toEqual([
+      ['e1', 'thread-1'],
+      ['e2', 'm-e2'],
+      ['e3', 'm-e3'],
+    ]);
+  });
+
+  it('leaves emails for the next start when Gmail fails', async () => {
+    prisma.email.findMany.mockResolvedValueOnce([email('e1')]).mockResolvedValueOnce([]);
+    gmail.users.messages.get.mockRejectedValueOnce(Object.assign(new Error('Bad Request'), { status: 400 }));
+
+    await service.backfillThreadIds();
+
+    expect(prisma.email.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { google, gmail_v1 } from 'googleapis';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { GoogleAuthService } from '../auth/google-auth.service';
+import { getHttpStatus, withRetry } from '../common/google-api-errors';
+
+const BACKFILL_BATCH_SIZE = 100;
+
+// Emails stored before thread IDs were always recorded get Gmail's thread ID, or a thread of their own
+// when Gmail no longer has the message or the account is gone
+@Injectable()
+export class ThreadBackfillService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ThreadBackfillService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leaderElection: LeaderElectionService,
+    private googleAuthService: GoogleAuthService
+  ) {}
+
+  onApplicationBootstrap() {
+    void this.backfillThreadIds().catch((error) => {
+      this.logger.error('Thread ID backfill failed:', error);
+    });
+  }
+
+  async backfillThreadIds(): Promise<void> {
+    await this.leaderElection.runExclusive('thread-backfill', 30 * 60 * 1000, async () => {
+      const clients = new Map<string, gmail_v1.Gmail | null>();
+      let cursor: string | undefined;
+      let updated = 0;
+
+      for (;;) {
+        const emails = await this.prisma.email.findMany({
+          where: { threadId: '', ...(cursor && { id: { gt: cursor } }) },
+          orderBy: { id: 'asc' },
+          take: BACKFILL_BATCH_SIZE,
+          select: { id: true, accountId: true, messageId: true },
+        });
+
+        if (emails.length === 0) {
+          break;
+        }
+
+        for (const email of emails) {
+          const gmail = await this.getGmail(clients, email.accountId);
+          let threadId = email.messageId;
+
+          if (gmail) {
+            try {
+              const { data } = await withRetry(
+                () => gmail.users.messages.get({ userId: 'me', id: email.messageId, format: 'minimal' }),
+                { logger: this.logger, label: `Thread lookup for message ${email.messageId}` }
+              );
+              threadId = data.threadId || threadId;
+            } catch (error) {
+              // Other errors leave the email for the next start
+              if (getHttpStatus(error) !== 404) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                this.logger.warn(`Failed to look up the thread of email ${email.messageId}: ${errorMessage}`);
+                continue;
+              }
+            }
+          }
+
+          await this.prisma.email.update({ where: { id: email.id }, data: { threadId } });
+          updated++;
+        }
+
+        cursor = emails[emails.length - 1].id;
+      }
+
+      if (updated > 0) {
+        this.logger.log(`Backfilled thread IDs for ${updated} email(s)`);
+      }
+    });
+  }
+
+  private async getGmail(
+    clients: Map<string, gmail_v1.Gmail | null>,
+    accountId: string
+  ): Promise<gmail_v1.Gmail | null> {
+    if (!clients.has(accountId)) {
+      const account = await this.googleAuthService.getConnectedAccount(accountId);
+      const auth = account ? await this.googleAuthService.getAuthenticatedClient(account.token) : null;
+      clients.set(accountId, auth ? google.gmail({ version: 'v1', auth }) : null);
+    }
+
+    return clients.get(accountId)!;
+  }
+}
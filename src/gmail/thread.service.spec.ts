@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { extractAddresses, parseMessageIds, ThreadService } from './thread.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('ThreadService', () => {
+  let service: ThreadService;
+
+  const prisma = {
+    email: { findFirst: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ThreadService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<ThreadService>(ThreadService);
+  });
+
+  describe('resolveThreadId', () => {
+    it('joins the thread of a stored ancestor', async () => {
+      prisma.email.findFirst.mockResolvedValueOnce({ threadId: 'thread-1' });
+
+      await expect(
+        service.resolveThreadId('account-1', {
+          rfcMessageId: '<reply@example.com>',
+          inReplyTo: '<parent@example.com>',
+          references: ['<root@example.com>', '<parent@example.com>'],
+        }),
+      ).resolves.toBe('thread-1');
+      expect(prisma.email.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            accountId: 'account-1',
+            rfcMessageId: { in: ['<root@example.com>', '<parent@example.com>', '<parent@example.com>'] },
+          },
+        }),
+      );
+    });
+
+    it('joins the thread of a reply that arrived first', async () => {
+      prisma.email.findFirst.mockResolvedValueOnce({ threadId: 'thread-2' });
+
+      await expect(
+        service.resolveThreadId('account-1', {
+          rfcMessageId: '<root@example.com>',
+          inReplyTo: null,
+          references: [],
+        }),
+      ).resolves.toBe('thread-2');
+    });
+
+    it('derives the same thread ID from the root for unmatched messages', async () => {
+      prisma.email.findFirst.mockResolvedValue(null);
+
+      const root = await service.resolveThreadId('account-1', {
+        rfcMessageId: '<root@example.com>',
+        inReplyTo: null,
+        references: [],
+      });
+      const reply = await service.resolveThreadId('account-1', {
+        rfcMessageId: '<reply@example.com>',
+        inReplyTo: '<root@example.com>',
+        references: ['<root@example.com>'],
+      });
+
+      expect(root).toMatch(/^rfc-[0-9a-f]{16}$/);
+      expect(reply).toBe(root);
+    });
+
+    it('returns null without any message IDs', async () => {
+      await expect(
+        service.resolveThreadId('account-1', { rfcMessageId: null, inReplyTo: null, references: [] }),
+      ).resolves.toBeNull();
+      expect(prisma.email.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  it('parses message ID lists', () => {
+    expect(parseMessageIds('<a@example.com>\r\n <b@example.com>')).toEqual([
+      '<a@example.com>',
+      '<b@example.com>',
+    ]);
+  });
+
+  it('extracts addresses from address lists', () => {
+    expect(extractAddresses('"Doe, Jane" <Jane@Example.com>, bob@example.com')).toEqual([
+      'jane@example.com',
+      'bob@example.com',
+    ]);
+  });
+});
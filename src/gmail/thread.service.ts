@@ -0,0 +1,175 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+
+const MESSAGE_ID_PATTERN = /<[^<>\s]+>/g;
+const ADDRESS_PATTERN = /<([^<>\s]+@[^<>\s]+)>|([^\s<>,;"]+@[^\s<>,;"]+)/g;
+const SNIPPET_LENGTH = 200;
+
+export interface ThreadHeaders {
+  rfcMessageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+}
+
+export const parseMessageIds = (header: string): string[] =>
+  header.match(MESSAGE_ID_PATTERN) ?? [];
+
+export const extractAddresses = (header: string | null): string[] =>
+  Array.from((header ?? '').matchAll(ADDRESS_PATTERN), ([, bracketed, bare]) =>
+    (bracketed ?? bare).toLowerCase()
+  );
+
+@Injectable()
+export class ThreadService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async resolveThreadId(accountId: string, headers: ThreadHeaders): Promise<string | null> {
+    const ancestors = [...headers.references, headers.inReplyTo].filter(
+      (id): id is string => !!id
+    );
+
+    if (ancestors.length > 0) {
+      const parent = await this.prisma.email.findFirst({
+        where: { accountId, rfcMessageId: { in: ancestors } },
+        orderBy: { date: 'desc' },
+        select: { threadId: true },
+      });
+
+      if (parent?.threadId) {
+        return parent.threadId;
+      }
+    }
+
+    if (headers.rfcMessageId) {
+      const reply = await this.prisma.email.findFirst({
+        where: { accountId, references: { has: headers.rfcMessageId } },
+        select: { threadId: true },
+      });
+
+      if (reply?.threadId) {
+        return reply.threadId;
+      }
+    }
+
+    const root = headers.references[0] ?? headers.inReplyTo ?? headers.rfcMessageId;
+    if (!root) {
+      return null;
+    }
+
+    return `rfc-${createHash('sha1').update(`${accountId}:${root}`).digest('hex').slice(0, 16)}`;
+  }
+
+  async listThreads(page: number, limit: number) {
+    // Emails without a thread ID are listed once ThreadBackfillService has filled it in
+    const groups = await this.prisma.email.groupBy({
+      by: ['threadId'],
+      where: { deletedAt: null, threadId: { not: '' } },
+      _max: { date: true },
+      orderBy: { _max: { date: 'desc' } },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const [{ total }] = await this.prisma.$queryRaw<[{ total: number }]>`
+      SELECT count(DISTINCT "threadId")::int AS "total"
+      FROM "Email"
+      WHERE "deletedAt" IS NULL AND "threadId" <> ''
+    `;
+
+    const emails = await this.prisma.email.findMany({
+      where: { threadId: { in: groups.map((group) => group.threadId) }, deletedAt: null },
+      orderBy: { date: 'asc' },
+      select: {
+        messageId: true,
+        threadId: true,
+        accountId: true,
+        subject: true,
+        sender: true,
+        recipients: true,
+        cc: true,
+        date: true,
+        bodyText: true,
+        labelIds: true,
+        _count: { select: { attachments: true } },
+      },
+    });
+
+    const threads = groups.map(({ threadId }) => {
+      const messages = emails.filter((email) => email.threadId === threadId);
+      const latest = messages[messages.length - 1];
+
+      const participants = new Set<string>();
+      const labelCounts: Record<string, number> = {};
+      for (const message of messages) {
+        for (const header of [message.sender, message.recipients, message.cc]) {
+          extractAddresses(header).forEach((address) => participants.add(address));
+        }
+        for (const labelId of message.labelIds) {
+          labelCounts[labelId] = (labelCounts[labelId] ?? 0) + 1;
+        }
+      }
+
+      return {
+        threadId,
+        accountId: latest.accountId,
+        subject: messages[0].subject,
+        latestMessage: {
+          messageId: latest.messageId,
+          subject: latest.subject,
+          sender: latest.sender,
+          date: latest.date,
+          snippet: (latest.bodyText ?? '').slice(0, SNIPPET_LENGTH),
+        },
+        participants: Array.from(participants),
+        messageCount: messages.length,
+        attachmentCount: messages.reduce((sum, message) => sum + message._count.attachments, 0),
+        unreadCount: labelCounts['UNREAD'] ?? 0,
+        labels: labelCounts,
+      };
+    });
+
+    return {
+      threads,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getThread(threadId: string) {
+    const messages = await this.prisma.email.findMany({
+      where: { threadId, deletedAt: null },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+      omit: { headers: true },
+      include: {
+        attachments: {
+          select: {
+            id: true,
+            fileName: true,
+            mimeType: true,
+            size: true,
+            storageProvider: true,
+            storageKey: true,
+            status: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (messages.length === 0) {
+      throw new NotFoundException(`Thread ${threadId} not found`);
+    }
+
+    return {
+      threadId,
+      subject: messages[0].subject,
+      messageCount: messages.length,
+      messages,
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { WebhookController } from './webhook.controller';
+import { GmailService } from './gmail.service';
+import { PubSubPushGuard } from './pubsub-push.guard';
+import { GoogleAuthService } from '../auth/google-auth.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { AttachmentDedupService } from '../storage/attachment-dedup.service';
+import { SyncQueueService } from '../sync/sync-queue.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { SyncRunService } from '../sync/sync-run.service';
+import { ThreadService } from './thread.service';
+import { ContactsService } from '../contacts/contacts.service';
+import { createValidationPipe } from '../common/validation';
+import { LabelService } from './label.service';
+
+const encode = (data: object): string =>
+  Buffer.from(JSON.stringify(data)).toString('base64');
+
+const pushPayload = (data: object) => ({
+  message: {
+    data: encode(data),
+    messageId: '2070443601311540',
+    publishTime: '2024-01-15T10:30:00.000Z',
+  },
+  subscription: 'projects/earc/subscriptions/gmail-push',
+});
+
+describe('WebhookController', () => {
+  let app: INestApplication<App>;
+
+  const account = {
+    id: 'account-1',
+    googleId: '1234567890',
+    email: 'alice@example.com',
+    historyId: '1000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    token: {
+      id: 'token-1',
+      accountId: 'account-1',
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      expiryDate: BigInt(Date.now() + 3600000),
+      createdAt: new Date(),
+    },
+  };
+
+  const syncQueue = {
+    enqueue: jest.fn(),
+  };
+
+  const googleAuthService = {
+    getConnectedAccountByEmail: jest.fn(),
+    getConnectedAccounts: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    googleAuthService.getConnectedAccountByEmail.mockImplementation(
+      (email: string) =>
+        Promise.resolve(email.toLowerCase() === account.email ? account : null),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WebhookController],
+      providers: [
+        GmailService,
+        { provide: GoogleAuthService, useValue: googleAuthService },
+        { provide: PrismaService, useValue: {} },
+        { provide: StorageService, useValue: {} },
+        { provide: AttachmentDedupService, useValue: {} },
+        { provide: SyncQueueService, useValue: syncQueue },
+        { provide: LeaderElectionService, useValue: {} },
+        { provide: SyncRunService, useValue: {} },
+        { provide: ThreadService, useValue: {} },
+        { provide: ContactsService, useValue: {} },
+        { provide: LabelService, useValue: {} },
+      ],
+    })
+      .overrideGuard(PubSubPushGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    app = module.createNestApplication();
+    app.useGlobalPipes(createValidationPipe());
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('queues a sync for only the account named in the notification', async () => {
+    await request(app.getHttpServer())
+      .post('/webhook/gmail')
+      .send(pushPayload({ emailAddress: 'Alice@example.com', historyId: 1042 }))
+      .expect(200);
+
+    expect(googleAuthService.getConnectedAccounts).not.toHaveBeenCalled();
+    expect(syncQueue.enqueue).toHaveBeenCalledTimes(1);
+    expect(syncQueue.enqueue).toHaveBeenCalledWith('account-1', 'push');
+  });
+
+  it('acknowledges and ignores notifications for unknown addresses', async () => {
+    await request(app.getHttpServer())
+      .post('/webhook/gmail')
+      .send(pushPayload({ emailAddress: 'mallory@example.com', historyId: 1042 }))
+      .expect(200);
+
+    expect(syncQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges and ignores notifications older than the checkpoint', async () => {
+    await request(app.getHttpServer())
+      .post('/webhook/gmail')
+      .send(pushPayload({ emailAddress: 'alice@example.com', historyId: 999 }))
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post('/webhook/gmail')
+      .send(pushPayload({ emailAddress: 'alice@example.com', historyId: 1000 }))
+      .expect(200);
+
+    expect(syncQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges notifications without a decodable payload', async () => {
+    await request(app.getHttpServer())
+      .post('/webhook/gmail')
+      .send({
+        message: { data: 'not-json', messageId: '1', publishTime: '' },
+        subscription: 'projects/earc/subscriptions/gmail-push',
+      })
+      .expect(200);
+
+    expect(googleAuthService.getConnectedAccountByEmail).not.toHaveBeenCalled();
+    expect(syncQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('fails the delivery when the sync cannot be queued so Pub/Sub retries it', async () => {
+    syncQueue.enqueue.mockRejectedValueOnce(new Error('Connection refused'));
+
+    await request(app.getHttpServer())
+      .post('/webhook/gmail')
+      .send(pushPayload({ emailAddress: 'alice@example.com', historyId: 1042 }))
+      .expect(500);
+  });
+
+  it('rejects payloads without a message', async () => {
+    await request(app.getHttpServer())
+      .post('/webhook/gmail')
+      .send({ subscription: 'projects/earc/subscriptions/gmail-push' })
+      .expect(400);
+  });
+});
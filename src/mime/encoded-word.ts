@@ -0,0 +1,54 @@
+const ENCODED_WORD_PATTERN = /=\?([^?\s]+)\?([bBqQ])\?([^?\s]*)\?=/g;
+const ADJACENT_ENCODED_WORDS = /(=\?[^?\s]+\?[bBqQ]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[bBqQ]\?[^?\s]*\?=)/g;
+
+// Node decodes windows-1252 as plain latin1, losing the printable characters in 0x80-0x9f
+const WINDOWS_1252_HIGH = '€\ufffd‚ƒ„…†‡ˆ‰Š‹Œ\ufffdŽ\ufffd\ufffd‘’“”•–—˜™š›œ\ufffdžŸ';
+const WINDOWS_1252_LABELS = new Set(['windows-1252', 'cp1252', 'x-cp1252', 'iso-8859-1', 'latin1', 'us-ascii', 'ascii']);
+
+const decodeWindows1252 = (bytes: Buffer): string =>
+  Array.from(bytes, (byte) =>
+    byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : String.fromCharCode(byte)
+  ).join('');
+
+export function decodeCharset(bytes: Buffer, charset: string = 'utf-8'): string {
+  const label = charset.trim().toLowerCase();
+
+  if (WINDOWS_1252_LABELS.has(label)) {
+    return decodeWindows1252(bytes);
+  }
+
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    // Unknown labels such as "unknown-8bit" are far more often UTF-8 than anything else
+    return bytes.toString('utf8');
+  }
+}
+
+const decodeQ = (text: string): Buffer => {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '_') {
+      bytes.push(0x20);
+    } else if (char === '=' && /^[0-9a-fA-F]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(char.charCodeAt(0));
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(ADJACENT_ENCODED_WORDS, '$1')
+    .replace(ENCODED_WORD_PATTERN, (word, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B' ? Buffer.from(text, 'base64') : decodeQ(text);
+      // RFC 2231 allows a language suffix: =?UTF-8*en?Q?...?=
+      return decodeCharset(bytes, charset.split('*')[0]);
+    });
+}
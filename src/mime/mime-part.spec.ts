@@ -0,0 +1,141 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodeEncodedWords } from './encoded-word';
+import {
+  extractMessageBody,
+  getContentId,
+  getInlineContentIds,
+  getPartHeader,
+  isAttachmentPart,
+  isInlinePart,
+  parseHeaderValue,
+} from './mime-part';
+import { parseRawMessage } from '../../test/fixtures/raw-message';
+
+const fixture = (name: string) => parseRawMessage(readFileSync(join(__dirname, 'fixtures', name)));
+
+describe('MIME decoding', () => {
+  describe('charsets and transfer encodings', () => {
+    it('decodes quoted-printable ISO-8859-1 and base64 Windows-1252 alternatives', () => {
+      const body = extractMessageBody(fixture('latin1-alternative.eml'));
+
+      expect(body.text).toContain('Hallo Jürgen,');
+      expect(body.text).toContain('anbei die Übersicht für März.');
+      expect(body.html).toContain('Übersicht für März – Kosten: 120 €.');
+    });
+
+    it('decodes ISO-2022-JP bodies', () => {
+      const body = extractMessageBody(fixture('iso-2022-jp.eml'));
+
+      expect(body.text).toBe('お世話になっております。\r\n来週の会議の件でご連絡しました。\r\n');
+      expect(body.html).toBe('');
+    });
+
+    it('decodes Gmail base64url body data', () => {
+      const body = extractMessageBody({
+        mimeType: 'text/plain',
+        headers: [{ name: 'Content-Type', value: 'text/plain; charset=UTF-8' }],
+        body: { data: Buffer.from('ÿ? >>> ¿ok?').toString('base64url') },
+      });
+
+      expect(body.text).toBe('ÿ? >>> ¿ok?');
+    });
+  });
+
+  describe('multipart semantics', () => {
+    it('keeps one text and one html alternative inside multipart/mixed and skips attachments', () => {
+      const message = fixture('mixed-with-attachments.eml');
+      const body = extractMessageBody(message);
+
+      expect(body.text.trim()).toBe('Hi team – the final Q1 report is attached.');
+      expect(body.html.trim()).toBe(
+        '<html><body><p>Hi team – the final <b>Q1 report</b> is attached.</p></body></html>',
+      );
+      expect(body.text).not.toContain('attachment, not the body');
+      expect(body.text).not.toContain('region,total');
+    });
+
+    it('joins inline text parts of multipart/mixed in order', () => {
+      const body = extractMessageBody(fixture('mailing-list-footer.eml'));
+
+      expect(body.text).toMatch(/^Release 2\.3 is out — enjoy!\s+_+\r\ndev mailing list/);
+    });
+
+    it('takes the html root of multipart/related and ignores its inline resources', () => {
+      const body = extractMessageBody(fixture('related-inline-image.eml'));
+
+      expect(body.text).toContain('Here is the group photo:');
+      expect(body.html).toContain('<img src="cid:photo-1@example.org">');
+    });
+  });
+
+  describe('attachment detection', () => {
+    it('treats text parts with attachment disposition or a filename as attachments', () => {
+      const [, notes, csv] = fixture('mixed-with-attachments.eml').parts!;
+
+      expect(isAttachmentPart(notes, new Set())).toBe(true);
+      expect(notes.filename).toBe('notes.txt');
+      expect(isAttachmentPart(csv, new Set())).toBe(true);
+      expect(csv.filename).toBe('Q1 – totals.csv');
+    });
+
+    it('recognises Content-ID images as inline resources rather than attachments', () => {
+      const message = fixture('related-inline-image.eml');
+      const [, related] = message.parts!;
+      const [html, image] = related.parts!;
+      const inlineContentIds = getInlineContentIds(message);
+
+      expect(inlineContentIds).toEqual(new Set(['photo-1@example.org']));
+      expect(isInlinePart(image, inlineContentIds)).toBe(true);
+      expect(isAttachmentPart(image, inlineContentIds)).toBe(false);
+      expect(getContentId(image)).toBe('photo-1@example.org');
+      expect(isInlinePart(html, inlineContentIds)).toBe(false);
+    });
+
+    it('only treats raster images the body references as inline', () => {
+      const withContentId = (mimeType: string, contentId: string) => ({
+        mimeType,
+        filename: 'file',
+        headers: [{ name: 'Content-ID', value: `<${contentId}>` }],
+        body: { attachmentId: 'a1' },
+      });
+      const referenced = new Set(['logo', 'vector', 'invoice']);
+
+      expect(isInlinePart(withContentId('image/png', 'logo'), referenced)).toBe(true);
+      expect(isInlinePart(withContentId('image/png', 'unused'), referenced)).toBe(false);
+      expect(isInlinePart(withContentId('image/svg+xml', 'vector'), referenced)).toBe(false);
+      expect(isAttachmentPart(withContentId('image/svg+xml', 'vector'), referenced)).toBe(true);
+      expect(isAttachmentPart(withContentId('application/pdf', 'invoice'), referenced)).toBe(true);
+    });
+
+    it('does not treat body parts as attachments', () => {
+      const [alternative] = fixture('mixed-with-attachments.eml').parts!;
+
+      expect(isAttachmentPart(alternative, new Set())).toBe(false);
+      alternative.parts!.forEach((part) => expect(isAttachmentPart(part, new Set())).toBe(false));
+    });
+  });
+
+  describe('RFC 2047 encoded words', () => {
+    it.each([
+      ['latin1-alternative.eml', 'Übersicht für März'],
+      ['iso-2022-jp.eml', '会議のご案内'],
+      ['mixed-with-attachments.eml', 'Q1 report – final'],
+      ['mailing-list-footer.eml', '[dev] Release 2.3 is out'],
+    ])('decodes the subject of %s', (name, subject) => {
+      expect(decodeEncodedWords(getPartHeader(fixture(name), 'Subject'))).toBe(subject);
+    });
+
+    it('joins adjacent encoded words without the separating whitespace', () => {
+      expect(decodeEncodedWords('=?UTF-8?Q?caf=C3=A9?= =?UTF-8?Q?_au_lait?= ok')).toBe(
+        'café au lait ok',
+      );
+    });
+  });
+
+  it('parses quoted and RFC 2231 header parameters', () => {
+    expect(
+      parseHeaderValue('Attachment; filename*0*=utf-8\'\'r%C3%A9sum; filename*1*=%C3%A9.pdf; size="12"'),
+    ).toEqual({ value: 'attachment', params: { filename: 'résumé.pdf', size: '12' } });
+  });
+});
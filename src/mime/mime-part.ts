@@ -0,0 +1,230 @@
+import { gmail_v1 } from 'googleapis';
+import { decodeCharset, decodeEncodedWords } from './encoded-word';
+
+export interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+export interface MessageBody {
+  text: string;
+  html: string;
+}
+
+interface CollectedBody {
+  text: string[];
+  html: string[];
+}
+
+// Raster images only: SVG can carry script, and inline resources are served from our own origin
+const INLINE_IMAGE_TYPE_PATTERN = /^image\/(?!svg\b)[\w.+-]+$/i;
+const CID_URL_PATTERN = /\bcid:([^"'\s>)]+)/gi;
+
+// Inline parts are images, which never contribute body text, so the body walk needs no cid references
+const NO_CONTENT_IDS: ReadonlySet<string> = new Set();
+
+export function getPartHeader(part: gmail_v1.Schema$MessagePart, name: string): string {
+  const header = (part.headers || []).find((h) => h.name?.toLowerCase() === name.toLowerCase());
+  return header?.value || '';
+}
+
+const splitParams = (value: string): string[] => {
+  const segments: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && quoted && i + 1 < value.length) {
+      current += value[++i];
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ';' && !quoted) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  segments.push(current);
+  return segments.map((segment) => segment.trim());
+};
+
+const decodeExtendedParam = (value: string): string => {
+  // RFC 2231: charset'language'percent-encoded-value
+  const match = /^([^']*)'[^']*'(.*)$/.exec(value);
+  if (!match) {
+    return value;
+  }
+
+  const bytes = Buffer.from(
+    match[2].replace(/%([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1'
+  );
+  return decodeCharset(bytes, match[1] || 'utf-8');
+};
+
+export function parseHeaderValue(header: string): HeaderValue {
+  const [value, ...rawParams] = splitParams(header);
+  const params: Record<string, string> = {};
+  const continuations: Record<string, { segments: string[]; extended: boolean }> = {};
+
+  for (const param of rawParams) {
+    const index = param.indexOf('=');
+    if (index === -1) {
+      continue;
+    }
+
+    const key = param.slice(0, index).trim().toLowerCase();
+    const paramValue = param.slice(index + 1).trim();
+    const continuation = /^(.+?)\*(\d+)\*?$/.exec(key);
+
+    if (continuation) {
+      // RFC 2231 continuations: filename*0*=utf-8''a%20b; filename*1*=c.pdf
+      const entry = (continuations[continuation[1]] ??= { segments: [], extended: false });
+      entry.segments[Number(continuation[2])] = paramValue;
+      entry.extended ||= key.endsWith('*') && continuation[2] === '0';
+    } else if (key.endsWith('*')) {
+      params[key.slice(0, -1)] = decodeExtendedParam(paramValue);
+    } else {
+      params[key] = decodeEncodedWords(paramValue);
+    }
+  }
+
+  for (const [name, { segments, extended }] of Object.entries(continuations)) {
+    const joined = segments.join('');
+    params[name] = extended ? decodeExtendedParam(joined) : decodeEncodedWords(joined);
+  }
+
+  return { value: value.toLowerCase(), params };
+}
+
+export function getPartFilename(part: gmail_v1.Schema$MessagePart): string {
+  if (part.filename) {
+    return part.filename;
+  }
+
+  return (
+    parseHeaderValue(getPartHeader(part, 'Content-Disposition')).params.filename ||
+    parseHeaderValue(getPartHeader(part, 'Content-Type')).params.name ||
+    ''
+  );
+}
+
+export function getContentId(part: gmail_v1.Schema$MessagePart): string {
+  return getPartHeader(part, 'Content-ID').trim().replace(/^<|>$/g, '');
+}
+
+export function isInlineImageType(mimeType: string | null | undefined): boolean {
+  return INLINE_IMAGE_TYPE_PATTERN.test(mimeType || '');
+}
+
+// Content IDs the HTML refers to with cid: URLs, which RFC 2392 percent-encodes
+export function getReferencedContentIds(html: string): Set<string> {
+  const contentIds = new Set<string>();
+
+  for (const [, rawContentId] of html.matchAll(CID_URL_PATTERN)) {
+    try {
+      contentIds.add(decodeURIComponent(rawContentId));
+    } catch {
+      contentIds.add(rawContentId);
+    }
+  }
+
+  return contentIds;
+}
+
+// Only images the body actually shows are inline; anything else with a Content-ID is an attachment
+export function isInlinePart(
+  part: gmail_v1.Schema$MessagePart,
+  referencedContentIds: ReadonlySet<string>
+): boolean {
+  if (!isInlineImageType(part.mimeType)) {
+    return false;
+  }
+
+  const contentId = getContentId(part);
+  const disposition = parseHeaderValue(getPartHeader(part, 'Content-Disposition')).value;
+  return !!contentId && disposition !== 'attachment' && referencedContentIds.has(contentId);
+}
+
+export function isAttachmentPart(
+  part: gmail_v1.Schema$MessagePart,
+  referencedContentIds: ReadonlySet<string>
+): boolean {
+  if (part.mimeType?.startsWith('multipart/') || isInlinePart(part, referencedContentIds)) {
+    return false;
+  }
+
+  if (part.body?.attachmentId) {
+    return true;
+  }
+
+  if (parseHeaderValue(getPartHeader(part, 'Content-Disposition')).value === 'attachment') {
+    return true;
+  }
+
+  return !!getPartFilename(part);
+}
+
+export function decodePartBody(part: gmail_v1.Schema$MessagePart): string {
+  const data = part.body?.data;
+  if (!data) {
+    return '';
+  }
+
+  const charset = parseHeaderValue(getPartHeader(part, 'Content-Type')).params.charset;
+  return decodeCharset(Buffer.from(data, 'base64url'), charset);
+}
+
+const collectBody = (part: gmail_v1.Schema$MessagePart): CollectedBody => {
+  const mimeType = (part.mimeType || 'text/plain').toLowerCase();
+  const children = part.parts || [];
+
+  if (isAttachmentPart(part, NO_CONTENT_IDS)) {
+    return { text: [], html: [] };
+  }
+
+  if (mimeType === 'multipart/alternative') {
+    // Alternatives are ordered from plainest to richest, so the last usable one wins
+    const alternatives = children.map(collectBody);
+    const text = alternatives.filter((body) => body.text.length > 0).pop()?.text ?? [];
+    const html = alternatives.filter((body) => body.html.length > 0).pop()?.html ?? [];
+    return { text, html };
+  }
+
+  if (mimeType === 'multipart/related') {
+    const start = parseHeaderValue(getPartHeader(part, 'Content-Type')).params.start;
+    const root =
+      (start && children.find((child) => getPartHeader(child, 'Content-ID') === start)) || children[0];
+    return root ? collectBody(root) : { text: [], html: [] };
+  }
+
+  if (mimeType.startsWith('multipart/')) {
+    const bodies = children.map(collectBody);
+    return {
+      text: bodies.flatMap((body) => body.text),
+      html: bodies.flatMap((body) => body.html),
+    };
+  }
+
+  if (mimeType === 'text/plain') {
+    return { text: [decodePartBody(part)], html: [] };
+  }
+
+  if (mimeType === 'text/html') {
+    return { text: [], html: [decodePartBody(part)] };
+  }
+
+  return { text: [], html: [] };
+};
+
+export function extractMessageBody(payload: gmail_v1.Schema$MessagePart): MessageBody {
+  const { text, html } = collectBody(payload);
+  return { text: text.join('\n'), html: html.join('\n') };
+}
+
+export function getInlineContentIds(payload: gmail_v1.Schema$MessagePart): Set<string> {
+  return getReferencedContentIds(extractMessageBody(payload).html);
+}
@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma, StorageBackend } from '../../generated/prisma';
+import { StoredObject } from './storage-provider';
+
+interface BlobSummaryRow {
+  blobs: number;
+  attachments: number;
+  bytesStored: bigint;
+  bytesSaved: bigint;
+}
+
+interface DuplicateBlobRow {
+  accountId: string | null;
+  sha256: string;
+  storageProvider: StorageBackend;
+  storageKey: string;
+  fileNames: string[];
+  mimeType: string;
+  size: number | null;
+  copies: number;
+  bytesSaved: bigint;
+}
+
+@Injectable()
+export class AttachmentDedupService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Blobs already stored for the account, keyed by content hash
+  async findStoredBlobs(accountId: string, hashes: string[]): Promise<Map<string, StoredObject>> {
+    if (hashes.length === 0) {
+      return new Map();
+    }
+
+    const attachments = await this.prisma.attachment.findMany({
+      where: { accountId, sha256: { in: hashes }, storageKey: { not: null } },
+      distinct: ['sha256'],
+      orderBy: [{ sha256: 'asc' }, { createdAt: 'asc' }],
+      select: { sha256: true, storageProvider: true, storageKey: true, fileName: true, mimeType: true, size: true },
+    });
+
+    return new Map(
+      attachments.map((attachment) => [
+        attachment.sha256!,
+        {
+          provider: attachment.storageProvider,
+          key: attachment.storageKey!,
+          fileName: attachment.fileName,
+          mimeType: attachment.mimeType,
+          size: attachment.size ?? 0,
+          sha256: attachment.sha256!,
+        },
+      ])
+    );
+  }
+
+  // Attachments sharing a stored blob count as duplicates; legacy rows without a hash are left out
+  async getDuplicateReport(accountId: string | undefined, limit: number) {
+    const blobs = Prisma.sql`
+      SELECT
+        "accountId",
+        "sha256",
+        "storageProvider",
+        "storageKey",
+        array_agg(DISTINCT "fileName") AS "fileNames",
+        min("mimeType") AS "mimeType",
+        max("size") AS "size",
+        count(*)::int AS "copies"
+      FROM "Attachment"
+      WHERE "sha256" IS NOT NULL AND "storageKey" IS NOT NULL
+        ${accountId ? Prisma.sql`AND "accountId" = ${accountId}` : Prisma.empty}
+      GROUP BY "accountId", "sha256", "storageProvider", "storageKey"
+    `;
+
+    const [[summary], duplicates] = await Promise.all([
+      this.prisma.$queryRaw<[BlobSummaryRow]>`
+        WITH blobs AS (${blobs})
+        SELECT
+          count(*)::int AS "blobs",
+          coalesce(sum("copies"), 0)::int AS "attachments",
+          coalesce(sum(coalesce("size", 0)), 0)::bigint AS "bytesStored",
+          coalesce(sum(("copies" - 1)::bigint * coalesce("size", 0)), 0)::bigint AS "bytesSaved"
+        FROM blobs
+      `,
+      this.prisma.$queryRaw<DuplicateBlobRow[]>`
+        WITH blobs AS (${blobs})
+        SELECT *, (("copies" - 1)::bigint * coalesce("size", 0))::bigint AS "bytesSaved"
+        FROM blobs
+        WHERE "copies" > 1
+        ORDER BY "copies" DESC, "bytesSaved" DESC, "sha256" ASC
+        LIMIT ${limit}
+      `,
+    ]);
+
+    return {
+      summary: {
+        attachments: summary.attachments,
+        uniqueFiles: summary.blobs,
+        duplicateAttachments: summary.attachments - summary.blobs,
+        bytesStored: Number(summary.bytesStored),
+        bytesSaved: Number(summary.bytesSaved),
+      },
+      mostDuplicated: duplicates.map((row) => ({ ...row, bytesSaved: Number(row.bytesSaved) })),
+    };
+  }
+}
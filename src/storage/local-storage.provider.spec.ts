@@ -0,0 +1,60 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalStorageProvider } from './local-storage.provider';
+import { buildObjectKey, StorageUploadContext } from './storage-provider';
+
+describe('LocalStorageProvider', () => {
+  let rootDir: string;
+  let provider: LocalStorageProvider;
+
+  const context: StorageUploadContext = {
+    accountId: 'account-1',
+    messageId: 'msg-1',
+    emailSubject: 'Quarterly report',
+    getAuthClient: () => Promise.reject(new Error('not needed')),
+  };
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    process.env.ATTACHMENT_STORAGE_DIR = rootDir;
+    provider = new LocalStorageProvider();
+  });
+
+  afterEach(async () => {
+    delete process.env.ATTACHMENT_STORAGE_DIR;
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('writes each attachment under its account and message', async () => {
+    const filePath = join(rootDir, 'spooled');
+    await writeFile(filePath, 'hello');
+    const attachment = { partId: '1', fileName: 'report.pdf', mimeType: 'application/pdf', filePath, size: 5, sha256: 'abc' };
+
+    const results = await provider.uploadAttachments(context, [attachment, { ...attachment, partId: '2.1' }]);
+
+    expect(results.map((result) => ('object' in result ? result.object.key : result.error))).toEqual([
+      'account-1/msg-1/1-report.pdf',
+      'account-1/msg-1/2.1-report.pdf',
+    ]);
+    expect(results[0]).toMatchObject({
+      object: { provider: 'local', fileName: 'report.pdf', size: 5, sha256: 'abc' },
+    });
+    await expect(readFile(join(rootDir, 'account-1/msg-1/2.1-report.pdf'), 'utf8')).resolves.toBe('hello');
+  });
+
+  it('reports attachments it could not store', async () => {
+    const filePath = join(rootDir, 'missing');
+    const attachment = { partId: '1', fileName: 'gone.pdf', mimeType: 'application/pdf', filePath, size: 1, sha256: 'abc' };
+
+    const [result] = await provider.uploadAttachments(context, [attachment]);
+
+    expect(result).toEqual({ attachment, error: expect.any(String) as string });
+  });
+
+  it('keeps file names from leaving the message directory', () => {
+    expect(buildObjectKey(context, '0', '../../etc/passwd')).toBe('account-1/msg-1/0-_.._etc_passwd');
+    expect(buildObjectKey({ ...context, messageId: '..' }, '2', 'a b.txt')).toBe('account-1/attachment/2-a_b.txt');
+    expect(() => provider.resolvePath('../outside.txt')).toThrow('escapes the storage directory');
+  });
+});
@@ -0,0 +1,69 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { access, copyFile, mkdir } from 'fs/promises';
+import { Readable } from 'stream';
+import { dirname, resolve, sep } from 'path';
+import { StorageBackend } from '../../generated/prisma';
+import {
+  AttachmentData,
+  buildObjectKey,
+  StorageProvider,
+  StorageReadContext,
+  StorageUploadContext,
+  UploadResult,
+  uploadEach,
+} from './storage-provider';
+
+const DEFAULT_STORAGE_DIR = 'storage/attachments';
+
+@Injectable()
+export class LocalStorageProvider implements StorageProvider {
+  readonly backend = StorageBackend.local;
+  private readonly logger = new Logger(LocalStorageProvider.name);
+  readonly rootDir = resolve(process.env.ATTACHMENT_STORAGE_DIR || DEFAULT_STORAGE_DIR);
+
+  async uploadAttachments(context: StorageUploadContext, attachments: AttachmentData[]): Promise<UploadResult[]> {
+    return uploadEach(
+      attachments,
+      async (attachment) => {
+        const key = buildObjectKey(context, attachment.partId, attachment.fileName);
+        const path = this.resolvePath(key);
+
+        await mkdir(dirname(path), { recursive: true });
+        await copyFile(attachment.filePath, path);
+
+        return {
+          provider: this.backend,
+          key,
+          fileName: attachment.fileName,
+          mimeType: attachment.mimeType,
+          size: attachment.size,
+          sha256: attachment.sha256,
+        };
+      },
+      this.logger
+    );
+  }
+
+  async openReadStream(_context: StorageReadContext, key: string): Promise<Readable> {
+    const path = this.resolvePath(key);
+
+    try {
+      await access(path);
+    } catch {
+      throw new NotFoundException(`Stored file ${key} not found`);
+    }
+
+    return createReadStream(path);
+  }
+
+  resolvePath(key: string): string {
+    const path = resolve(this.rootDir, key);
+
+    if (!path.startsWith(this.rootDir + sep)) {
+      throw new Error(`Storage key escapes the storage directory: ${key}`);
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,88 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { StorageBackend } from '../../generated/prisma';
+import {
+  AttachmentData,
+  buildObjectKey,
+  StorageProvider,
+  StorageReadContext,
+  StorageUploadContext,
+  UploadResult,
+  uploadEach,
+} from './storage-provider';
+
+@Injectable()
+export class S3StorageProvider implements StorageProvider {
+  readonly backend = StorageBackend.s3;
+  private readonly logger = new Logger(S3StorageProvider.name);
+  private readonly bucket = process.env.S3_BUCKET;
+  private client?: S3Client;
+
+  async uploadAttachments(context: StorageUploadContext, attachments: AttachmentData[]): Promise<UploadResult[]> {
+    const client = this.getClient();
+
+    return uploadEach(
+      attachments,
+      async (attachment) => {
+        const key = buildObjectKey(context, attachment.partId, attachment.fileName);
+
+        await client.send(
+          new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: createReadStream(attachment.filePath),
+            ContentType: attachment.mimeType,
+            ContentLength: attachment.size,
+          })
+        );
+
+        return {
+          provider: this.backend,
+          key,
+          fileName: attachment.fileName,
+          mimeType: attachment.mimeType,
+          size: attachment.size,
+          sha256: attachment.sha256,
+        };
+      },
+      this.logger
+    );
+  }
+
+  async openReadStream(_context: StorageReadContext, key: string): Promise<Readable> {
+    try {
+      const response = await this.getClient().send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return response.Body as Readable;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new NotFoundException(`Stored object ${key} not found`);
+      }
+      throw error;
+    }
+  }
+
+  private getClient(): S3Client {
+    if (!this.bucket) {
+      throw new Error('S3 storage is selected but S3_BUCKET is not configured');
+    }
+
+    const endpoint = process.env.S3_ENDPOINT || undefined;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+    this.client ??= new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint,
+      // MinIO and most self-hosted stores only serve path-style bucket URLs
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : !!endpoint,
+      // Without explicit keys the SDK falls back to its default credential chain
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+
+    return this.client;
+  }
+}
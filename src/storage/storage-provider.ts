@@ -0,0 +1,104 @@
+import { Logger } from '@nestjs/common';
+import { Auth } from 'googleapis';
+import { Readable } from 'stream';
+import { StorageBackend } from '../../generated/prisma';
+import { Semaphore } from '../common/semaphore';
+
+const DEFAULT_UPLOAD_CONCURRENCY = 2;
+
+// Shared by every backend so the limit holds for the whole process, whatever the mix of accounts
+const uploadSlots = new Semaphore(Number(process.env.ATTACHMENT_UPLOAD_CONCURRENCY) || DEFAULT_UPLOAD_CONCURRENCY);
+
+// Attachment content is spooled to a temporary file so uploads can stream it instead of holding it in memory
+export interface AttachmentData {
+  // Gmail MIME part ID, unique within the message
+  partId: string;
+  fileName: string;
+  mimeType: string;
+  filePath: string;
+  size: number;
+  sha256: string;
+}
+
+export interface StorageUploadContext {
+  accountId: string;
+  messageId: string;
+  emailSubject: string;
+  // Only Drive needs Google credentials, so they are resolved on demand
+  getAuthClient: () => Promise<Auth.OAuth2Client>;
+}
+
+export type StorageReadContext = Pick<StorageUploadContext, 'getAuthClient'>;
+
+export interface StoredObject {
+  provider: StorageBackend;
+  key: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+}
+
+// One per attachment, in the order given; a failed upload carries its error so it can be recorded and retried
+export type UploadResult =
+  | { attachment: AttachmentData; object: StoredObject }
+  | { attachment: AttachmentData; error: string };
+
+export interface StorageProvider {
+  readonly backend: StorageBackend;
+  uploadAttachments(context: StorageUploadContext, attachments: AttachmentData[]): Promise<UploadResult[]>;
+  openReadStream(context: StorageReadContext, key: string): Promise<Readable>;
+}
+
+export const STORAGE_BACKENDS = Object.values(StorageBackend);
+
+export function parseStorageBackend(value: string | undefined): StorageBackend {
+  if (!value) {
+    return StorageBackend.drive;
+  }
+
+  if (!STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    throw new Error(`Unknown attachment storage "${value}", expected one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+
+  return value as StorageBackend;
+}
+
+const sanitizeKeySegment = (value: string): string =>
+  value.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '').substring(0, 150) || 'attachment';
+
+// The part ID keeps same-named attachments of one message apart and makes re-uploads overwrite
+export function buildObjectKey(context: StorageUploadContext, partId: string, fileName: string): string {
+  return [
+    sanitizeKeySegment(context.accountId),
+    sanitizeKeySegment(context.messageId),
+    `${sanitizeKeySegment(partId)}-${sanitizeKeySegment(fileName)}`,
+  ].join('/');
+}
+
+export const failAll = (attachments: AttachmentData[], error: string): UploadResult[] =>
+  attachments.map((attachment) => ({ attachment, error }));
+
+// A failed attachment is logged and reported so the rest of the message still gets stored
+export async function uploadEach(
+  attachments: AttachmentData[],
+  upload: (attachment: AttachmentData) => Promise<StoredObject>,
+  logger: Logger
+): Promise<UploadResult[]> {
+  const results: UploadResult[] = [];
+  let uploaded = 0;
+
+  for (const attachment of attachments) {
+    try {
+      results.push({ attachment, object: await uploadSlots.run(() => upload(attachment)) });
+      uploaded++;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to upload attachment ${attachment.fileName}: ${errorMessage}`);
+      results.push({ attachment, error: errorMessage });
+    }
+  }
+
+  logger.log(`Uploaded ${uploaded}/${attachments.length} attachments successfully`);
+  return results;
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SyncModule } from '../sync/sync.module';
+import { DriveModule } from '../drive/drive.module';
+import { LocalStorageProvider } from './local-storage.provider';
+import { S3StorageProvider } from './s3-storage.provider';
+import { StorageService } from './storage.service';
+import { AttachmentDedupService } from './attachment-dedup.service';
+
+@Module({
+  imports: [PrismaModule, SyncModule, DriveModule],
+  providers: [LocalStorageProvider, S3StorageProvider, StorageService, AttachmentDedupService],
+  exports: [StorageService, AttachmentDedupService, DriveModule],
+})
+export class StorageModule {}
@@ -0,0 +1,55 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { parseDriveFileId, StorageService } from './storage.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { DriveService } from '../drive/drive.service';
+import { LocalStorageProvider } from './local-storage.provider';
+import { S3StorageProvider } from './s3-storage.provider';
+import { StorageBackend } from '../../generated/prisma';
+import { parseStorageBackend } from './storage-provider';
+
+describe('StorageService', () => {
+  const providers = {
+    drive: { backend: StorageBackend.drive },
+    local: { backend: StorageBackend.local },
+    s3: { backend: StorageBackend.s3 },
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageService,
+        { provide: PrismaService, useValue: {} },
+        { provide: LeaderElectionService, useValue: {} },
+        { provide: DriveService, useValue: providers.drive },
+        { provide: LocalStorageProvider, useValue: providers.local },
+        { provide: S3StorageProvider, useValue: providers.s3 },
+      ],
+    }).compile();
+
+    return module.get<StorageService>(StorageService);
+  };
+
+  afterEach(() => {
+    delete process.env.ATTACHMENT_STORAGE;
+  });
+
+  it('uses the deployment default unless the account picks a backend', async () => {
+    process.env.ATTACHMENT_STORAGE = 'local';
+    const service = await createService();
+
+    expect(service.getProvider({ storageProvider: null })).toBe(providers.local);
+    expect(service.getProvider({ storageProvider: StorageBackend.s3 })).toBe(providers.s3);
+  });
+
+  it('defaults to Drive and rejects unknown backends', () => {
+    expect(parseStorageBackend(undefined)).toBe(StorageBackend.drive);
+    expect(() => parseStorageBackend('dropbox')).toThrow('Unknown attachment storage "dropbox"');
+  });
+
+  it('reads Drive file IDs from legacy links', () => {
+    expect(parseDriveFileId('https://drive.google.com/file/d/1AbC-d_9/view?usp=drivesdk')).toBe('1AbC-d_9');
+    expect(parseDriveFileId('https://drive.google.com/uc?id=xyz123&export=download')).toBe('xyz123');
+    expect(parseDriveFileId('https://example.com/file.pdf')).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { LeaderElectionService } from '../sync/leader-election.service';
+import { DriveService } from '../drive/drive.service';
+import { Account, StorageBackend } from '../../generated/prisma';
+import { LocalStorageProvider } from './local-storage.provider';
+import { S3StorageProvider } from './s3-storage.provider';
+import { parseStorageBackend, StorageProvider } from './storage-provider';
+
+const BACKFILL_BATCH_SIZE = 200;
+
+// Drive links come as .../file/d/<id>/view or ...?id=<id>
+export function parseDriveFileId(driveLink: string): string | null {
+  const match = driveLink.match(/\/file\/d\/([\w-]+)/) ?? driveLink.match(/[?&]id=([\w-]+)/);
+  return match ? match[1] : null;
+}
+
+@Injectable()
+export class StorageService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly providers: Map<StorageBackend, StorageProvider>;
+  readonly defaultBackend = parseStorageBackend(process.env.ATTACHMENT_STORAGE);
+
+  constructor(
+    private prisma: PrismaService,
+    private leaderElection: LeaderElectionService,
+    driveService: DriveService,
+    localStorage: LocalStorageProvider,
+    s3Storage: S3StorageProvider
+  ) {
+    this.providers = new Map(
+      [driveService, localStorage, s3Storage].map((provider) => [provider.backend, provider])
+    );
+  }
+
+  onApplicationBootstrap() {
+    void this.backfillDriveKeys().catch((error) => {
+      this.logger.error('Attachment storage key backfill failed:', error);
+    });
+  }
+
+  getProvider(account: Pick<Account, 'storageProvider'>): StorageProvider {
+    return this.getBackend(account.storageProvider ?? this.defaultBackend);
+  }
+
+  getBackend(backend: StorageBackend): StorageProvider {
+    return this.providers.get(backend)!;
+  }
+
+  async backfillDriveKeys(): Promise<void> {
+    await this.leaderElection.runExclusive('attachment-key-backfill', 30 * 60 * 1000, async () => {
+      let cursor: string | undefined;
+      let processed = 0;
+
+      for (;;) {
+        const attachments = await this.prisma.attachment.findMany({
+          where: {
+            storageKey: null,
+            driveLink: { not: null },
+            ...(cursor && { id: { gt: cursor } }),
+          },
+          orderBy: { id: 'asc' },
+          take: BACKFILL_BATCH_SIZE,
+          select: { id: true, driveLink: true },
+        });
+
+        if (attachments.length === 0) {
+          break;
+        }
+
+        for (const attachment of attachments) {
+          const fileId = parseDriveFileId(attachment.driveLink!);
+          if (!fileId) {
+            this.logger.warn(`Cannot read a Drive file ID from attachment ${attachment.id}`);
+            continue;
+          }
+
+          await this.prisma.attachment.update({
+            where: { id: attachment.id },
+            data: { storageProvider: StorageBackend.drive, storageKey: fileId },
+          });
+          processed++;
+        }
+
+        cursor = attachments[attachments.length - 1].id;
+      }
+
+      if (processed > 0) {
+        this.logger.log(`Backfilled storage keys for ${processed} Drive attachment(s)`);
+      }
+    });
+  }
+}
@@ -0,0 +1,16 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { SyncJobStatus } from '../../../generated/prisma';
+
+export class ListJobsQueryDto {
+  @IsOptional()
+  @IsEnum(SyncJobStatus)
+  status?: SyncJobStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
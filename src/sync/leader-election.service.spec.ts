@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LeaderElectionService } from './leader-election.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma } from '../../generated/prisma';
+
+describe('LeaderElectionService', () => {
+  let service: LeaderElectionService;
+
+  const prisma = {
+    schedulerLease: {
+      updateMany: jest.fn(),
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [LeaderElectionService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<LeaderElectionService>(LeaderElectionService);
+  });
+
+  it('renews a lease this instance already holds', async () => {
+    prisma.schedulerLease.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    await expect(service.acquire('token-refresh', 60000)).resolves.toBe(true);
+    expect(prisma.schedulerLease.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.schedulerLease.updateMany).toHaveBeenCalledWith({
+      where: { name: 'token-refresh', holder: service.instanceId },
+      data: expect.objectContaining({ expiresAt: expect.any(Date) as Date }) as object,
+    });
+  });
+
+  it('takes over an expired lease', async () => {
+    prisma.schedulerLease.updateMany
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 });
+
+    await expect(service.acquire('token-refresh', 60000)).resolves.toBe(true);
+    expect(prisma.schedulerLease.create).not.toHaveBeenCalled();
+  });
+
+  it('loses to another instance creating the lease first', async () => {
+    prisma.schedulerLease.updateMany.mockResolvedValue({ count: 0 });
+    prisma.schedulerLease.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      }),
+    );
+
+    await expect(service.acquire('token-refresh', 60000)).resolves.toBe(false);
+  });
+
+  it('only runs exclusive tasks while holding the lease', async () => {
+    const task = jest.fn().mockResolvedValue(undefined);
+    prisma.schedulerLease.updateMany.mockResolvedValue({ count: 0 });
+    prisma.schedulerLease.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      }),
+    );
+
+    await expect(service.runExclusive('gmail-scheduled-sync', 90000, task)).resolves.toBe(false);
+    expect(task).not.toHaveBeenCalled();
+
+    prisma.schedulerLease.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    await expect(service.runExclusive('gmail-scheduled-sync', 90000, task)).resolves.toBe(true);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
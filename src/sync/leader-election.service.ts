@@ -0,0 +1,79 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma, SchedulerLease } from '../../generated/prisma';
+import { INSTANCE_ID } from '../common/instance-id';
+
+@Injectable()
+export class LeaderElectionService implements OnModuleDestroy {
+  private readonly logger = new Logger(LeaderElectionService.name);
+  readonly instanceId = INSTANCE_ID;
+
+  constructor(private prisma: PrismaService) {}
+
+  async runExclusive(name: string, ttlMs: number, task: () => Promise<void>): Promise<boolean> {
+    if (!(await this.acquire(name, ttlMs))) {
+      this.logger.debug(`Skipping ${name}: lease is held by another instance`);
+      return false;
+    }
+
+    await task();
+    return true;
+  }
+
+  async acquire(name: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    const renewed = await this.prisma.schedulerLease.updateMany({
+      where: { name, holder: this.instanceId },
+      data: { renewedAt: now, expiresAt },
+    });
+    if (renewed.count > 0) {
+      return true;
+    }
+
+    const takenOver = await this.prisma.schedulerLease.updateMany({
+      where: { name, expiresAt: { lt: now } },
+      data: { holder: this.instanceId, acquiredAt: now, renewedAt: now, expiresAt },
+    });
+    if (takenOver.count > 0) {
+      this.logger.log(`Acquired lease ${name}`);
+      return true;
+    }
+
+    try {
+      await this.prisma.schedulerLease.create({
+        data: { name, holder: this.instanceId, acquiredAt: now, renewedAt: now, expiresAt },
+      });
+      this.logger.log(`Acquired lease ${name}`);
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getLeases(): Promise<(SchedulerLease & { active: boolean; heldByThisInstance: boolean })[]> {
+    const leases = await this.prisma.schedulerLease.findMany({ orderBy: { name: 'asc' } });
+    const now = Date.now();
+
+    return leases.map((lease) => ({
+      ...lease,
+      active: lease.expiresAt.getTime() > now,
+      heldByThisInstance: lease.holder === this.instanceId,
+    }));
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    try {
+      await this.prisma.schedulerLease.updateMany({
+        where: { holder: this.instanceId },
+        data: { expiresAt: new Date() },
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to release scheduler leases on shutdown: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SyncQueueService } from './sync-queue.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma, SyncJob } from '../../generated/prisma';
+
+describe('SyncQueueService', () => {
+  let service: SyncQueueService;
+
+  const prisma = {
+    syncJob: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    account: {
+      updateMany: jest.fn(),
+    },
+  };
+
+  const job = (overrides: Partial<SyncJob> = {}): SyncJob => ({
+    id: 'job-1',
+    accountId: 'account-1',
+    type: 'incremental',
+    status: 'pending',
+    dedupeKey: 'account-1:incremental',
+    attempts: 0,
+    maxAttempts: 5,
+    runAt: new Date(),
+    lockedBy: null,
+    lockedAt: null,
+    lastError: null,
+    completedAt: null,
+    runId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SyncQueueService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<SyncQueueService>(SyncQueueService);
+  });
+
+  describe('enqueue', () => {
+    it('returns the queued job instead of creating a duplicate', async () => {
+      const existing = job();
+      prisma.syncJob.findUnique.mockResolvedValue(existing);
+
+      await expect(service.enqueue('account-1', 'incremental')).resolves.toBe(existing);
+      expect(prisma.syncJob.create).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the winning job when a concurrent enqueue races', async () => {
+      const winner = job({ id: 'job-2' });
+      prisma.syncJob.findUnique.mockResolvedValue(null);
+      prisma.syncJob.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+      prisma.syncJob.findUniqueOrThrow.mockResolvedValue(winner);
+
+      await expect(service.enqueue('account-1', 'incremental')).resolves.toBe(winner);
+    });
+  });
+
+  describe('claimJobs', () => {
+    beforeEach(() => {
+      prisma.syncJob.findMany.mockResolvedValueOnce([]);
+    });
+
+    it('skips jobs whose account is locked by another sync', async () => {
+      prisma.syncJob.findMany.mockResolvedValueOnce([
+        job({ id: 'job-1', accountId: 'account-1' }),
+        job({ id: 'job-2', accountId: 'account-2' }),
+      ]);
+      prisma.account.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+      prisma.syncJob.updateMany.mockResolvedValue({ count: 1 });
+
+      const claimed = await service.claimJobs(2);
+
+      expect(claimed.map((claimedJob) => claimedJob.id)).toEqual(['job-2']);
+      expect(claimed[0]).toMatchObject({ status: 'running', attempts: 1 });
+    });
+
+    it('releases the account lock when another worker claimed the job first', async () => {
+      prisma.syncJob.findMany.mockResolvedValueOnce([job()]);
+      prisma.account.updateMany.mockResolvedValue({ count: 1 });
+      prisma.syncJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.claimJobs(1)).resolves.toEqual([]);
+      expect(prisma.account.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'account-1', syncLockedBy: service.workerId },
+        data: { syncLockedBy: null, syncLockedUntil: null },
+      });
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('extends the job lease and the account lock while the job is still held', async () => {
+      prisma.syncJob.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.heartbeat(job({ status: 'running', lockedBy: service.workerId }))).resolves.toBe(true);
+
+      expect(prisma.syncJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'running', lockedBy: service.workerId },
+        data: { lockedAt: expect.any(Date) as Date },
+      });
+      expect(prisma.account.updateMany).toHaveBeenCalledWith({
+        where: { id: 'account-1', syncLockedBy: service.workerId },
+        data: { syncLockedUntil: expect.any(Date) as Date },
+      });
+    });
+
+    it('reports a lease taken over by another worker', async () => {
+      prisma.syncJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.heartbeat(job())).resolves.toBe(false);
+      expect(prisma.account.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('complete', () => {
+    it('leaves a job that another worker took over alone', async () => {
+      prisma.syncJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.complete(job({ status: 'running' }))).resolves.toBe(false);
+
+      expect(prisma.syncJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'running', lockedBy: service.workerId },
+        data: expect.objectContaining({ status: 'completed' }) as object,
+      });
+      expect(prisma.account.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fail', () => {
+    beforeEach(() => {
+      prisma.syncJob.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('reschedules with exponential backoff', async () => {
+      const before = Date.now();
+
+      await service.fail(job({ attempts: 3 }), new Error('Gmail unavailable'));
+
+      const [[{ where, data }]] = prisma.syncJob.updateMany.mock.calls as [
+        [{ where: object; data: { status: string; runAt: Date; lastError: string } }],
+      ];
+      expect(where).toEqual({ id: 'job-1', status: 'running', lockedBy: service.workerId });
+      expect(data.status).toBe('pending');
+      expect(data.lastError).toBe('Gmail unavailable');
+      expect(data.runAt.getTime() - before).toBeGreaterThanOrEqual(4 * 30 * 1000);
+    });
+
+    it('moves exhausted jobs to the dead letter state', async () => {
+      await service.fail(job({ attempts: 5 }), new Error('Gmail unavailable'));
+
+      expect(prisma.syncJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'running', lockedBy: service.workerId },
+        data: expect.objectContaining({ status: 'dead', dedupeKey: null }) as object,
+      });
+    });
+
+    it('does not unlock the account once the lease is lost', async () => {
+      prisma.syncJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.fail(job({ attempts: 1 }), new Error('Gmail unavailable'));
+
+      expect(prisma.account.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseStaleJobs', () => {
+    it('only releases a stale job if no heartbeat extended it meanwhile', async () => {
+      prisma.syncJob.findMany
+        .mockResolvedValueOnce([job({ status: 'running', lockedBy: 'worker-2', attempts: 1 })])
+        .mockResolvedValueOnce([]);
+      prisma.syncJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.claimJobs(1);
+
+      expect(prisma.syncJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'running', lockedBy: 'worker-2', lockedAt: { lt: expect.any(Date) as Date } },
+        data: expect.objectContaining({ status: 'pending' }) as object,
+      });
+    });
+  });
+});
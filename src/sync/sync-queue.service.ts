@@ -0,0 +1,283 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma, SyncJob, SyncJobStatus, SyncJobType, SyncRunStatus } from '../../generated/prisma';
+import { INSTANCE_ID } from '../common/instance-id';
+
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+const DEFAULT_RETRY_BASE_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class SyncQueueService {
+  private readonly logger = new Logger(SyncQueueService.name);
+  readonly workerId = INSTANCE_ID;
+  readonly concurrency = Number(process.env.SYNC_CONCURRENCY) || 2;
+  private readonly leaseMs = Number(process.env.SYNC_JOB_LEASE_MS) || DEFAULT_LEASE_MS;
+  private readonly retryBaseMs = Number(process.env.SYNC_RETRY_BASE_MS) || DEFAULT_RETRY_BASE_MS;
+
+  constructor(private prisma: PrismaService) {}
+
+  async enqueue(accountId: string, type: SyncJobType): Promise<SyncJob> {
+    const dedupeKey = `${accountId}:${type}`;
+
+    const existing = await this.prisma.syncJob.findUnique({ where: { dedupeKey } });
+    if (existing) {
+      this.logger.debug(`Sync job ${existing.id} (${type}) already queued for account ${accountId}`);
+      return existing;
+    }
+
+    try {
+      const job = await this.prisma.syncJob.create({
+        data: {
+          type,
+          dedupeKey,
+          account: { connect: { id: accountId } },
+          run: {
+            create: {
+              type,
+              account: { connect: { id: accountId } },
+            },
+          },
+        },
+      });
+      this.logger.log(`Queued ${type} sync job ${job.id} for account ${accountId}`);
+      return job;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return this.prisma.syncJob.findUniqueOrThrow({ where: { dedupeKey } });
+      }
+      throw error;
+    }
+  }
+
+  async claimJobs(limit: number): Promise<SyncJob[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    await this.releaseStaleJobs();
+
+    const candidates = await this.prisma.syncJob.findMany({
+      where: { status: SyncJobStatus.pending, runAt: { lte: new Date() } },
+      orderBy: { runAt: 'asc' },
+      take: limit * 5,
+    });
+
+    const claimed: SyncJob[] = [];
+
+    for (const job of candidates) {
+      if (claimed.length >= limit) {
+        break;
+      }
+
+      if (!(await this.lockAccount(job.accountId))) {
+        continue;
+      }
+
+      const now = new Date();
+      const { count } = await this.prisma.syncJob.updateMany({
+        where: { id: job.id, status: SyncJobStatus.pending },
+        data: {
+          status: SyncJobStatus.running,
+          lockedBy: this.workerId,
+          lockedAt: now,
+          attempts: { increment: 1 },
+        },
+      });
+
+      if (count === 0) {
+        await this.unlockAccount(job.accountId);
+        continue;
+      }
+
+      claimed.push({
+        ...job,
+        status: SyncJobStatus.running,
+        lockedBy: this.workerId,
+        lockedAt: now,
+        attempts: job.attempts + 1,
+      });
+    }
+
+    return claimed;
+  }
+
+  get heartbeatIntervalMs(): number {
+    return Math.floor(this.leaseMs / 3);
+  }
+
+  // Extends the job lease and the account lock; false once another worker has taken the job over
+  async heartbeat(job: SyncJob): Promise<boolean> {
+    const now = new Date();
+
+    const { count } = await this.prisma.syncJob.updateMany({
+      where: { id: job.id, status: SyncJobStatus.running, lockedBy: this.workerId },
+      data: { lockedAt: now },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await this.prisma.account.updateMany({
+      where: { id: job.accountId, syncLockedBy: this.workerId },
+      data: { syncLockedUntil: new Date(now.getTime() + this.leaseMs) },
+    });
+    return true;
+  }
+
+  // Returns false when the lease was lost and the job now belongs to another worker
+  async complete(job: SyncJob): Promise<boolean> {
+    const { count } = await this.prisma.syncJob.updateMany({
+      where: { id: job.id, status: SyncJobStatus.running, lockedBy: this.workerId },
+      data: {
+        status: SyncJobStatus.completed,
+        completedAt: new Date(),
+        dedupeKey: null,
+        lockedBy: null,
+        lockedAt: null,
+        lastError: null,
+      },
+    });
+
+    if (count === 0) {
+      this.logger.warn(`Sync job ${job.id} lost its lease before completing`);
+      return false;
+    }
+
+    await this.unlockAccount(job.accountId);
+    return true;
+  }
+
+  async fail(job: SyncJob, error: unknown, permanent: boolean = false): Promise<boolean> {
+    return this.release(job, error, permanent, { lockedBy: this.workerId });
+  }
+
+  async retryDeadJob(id: string): Promise<SyncJob> {
+    const job = await this.prisma.syncJob.findUnique({ where: { id } });
+
+    if (!job || job.status !== SyncJobStatus.dead) {
+      throw new NotFoundException(`Dead sync job ${id} not found`);
+    }
+
+    const dedupeKey = `${job.accountId}:${job.type}`;
+    const existing = await this.prisma.syncJob.findUnique({ where: { dedupeKey } });
+    if (existing) {
+      return existing;
+    }
+
+    return this.prisma.syncJob.update({
+      where: { id },
+      data: {
+        status: SyncJobStatus.pending,
+        dedupeKey,
+        attempts: 0,
+        runAt: new Date(),
+        lastError: null,
+        ...(job.runId && {
+          run: {
+            update: { status: SyncRunStatus.queued, finishedAt: null, lastError: null },
+          },
+        }),
+      },
+    });
+  }
+
+  async listJobs(status?: SyncJobStatus, limit: number = 50): Promise<SyncJob[]> {
+    return this.prisma.syncJob.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  private async releaseStaleJobs(): Promise<void> {
+    const staleBefore = new Date(Date.now() - this.leaseMs);
+    const staleJobs = await this.prisma.syncJob.findMany({
+      where: {
+        status: SyncJobStatus.running,
+        lockedAt: { lt: staleBefore },
+      },
+    });
+
+    for (const job of staleJobs) {
+      this.logger.warn(`Sync job ${job.id} held by ${job.lockedBy} exceeded its lease, releasing`);
+      // A heartbeat landing in between keeps the job with its worker
+      await this.release(job, new Error(`Worker ${job.lockedBy} stopped responding`), false, {
+        lockedBy: job.lockedBy,
+        lockedAt: { lt: staleBefore },
+      });
+    }
+  }
+
+  private async release(
+    job: SyncJob,
+    error: unknown,
+    permanent: boolean,
+    lease: Prisma.SyncJobWhereInput
+  ): Promise<boolean> {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const exhausted = permanent || job.attempts >= job.maxAttempts;
+    const delay = Math.min(this.retryBaseMs * 2 ** (job.attempts - 1), MAX_RETRY_DELAY_MS);
+
+    const { count } = await this.prisma.syncJob.updateMany({
+      where: { ...lease, id: job.id, status: SyncJobStatus.running },
+      data: exhausted
+        ? {
+            status: SyncJobStatus.dead,
+            dedupeKey: null,
+            lockedBy: null,
+            lockedAt: null,
+            lastError: errorMessage,
+          }
+        : {
+            status: SyncJobStatus.pending,
+            runAt: new Date(Date.now() + delay),
+            lockedBy: null,
+            lockedAt: null,
+            lastError: errorMessage,
+          },
+    });
+
+    // Whoever holds the job now decides its outcome
+    if (count === 0) {
+      this.logger.warn(`Sync job ${job.id} lost its lease before failing: ${errorMessage}`);
+      return true;
+    }
+
+    if (exhausted) {
+      this.logger.error(`Sync job ${job.id} moved to dead letter after ${job.attempts} attempt(s): ${errorMessage}`);
+    } else {
+      this.logger.warn(
+        `Sync job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${errorMessage}`
+      );
+    }
+
+    await this.unlockAccount(job.accountId);
+    return !exhausted;
+  }
+
+  private async lockAccount(accountId: string): Promise<boolean> {
+    const now = new Date();
+
+    const { count } = await this.prisma.account.updateMany({
+      where: {
+        id: accountId,
+        OR: [{ syncLockedUntil: null }, { syncLockedUntil: { lt: now } }],
+      },
+      data: {
+        syncLockedBy: this.workerId,
+        syncLockedUntil: new Date(now.getTime() + this.leaseMs),
+      },
+    });
+
+    return count > 0;
+  }
+
+  private async unlockAccount(accountId: string): Promise<void> {
+    await this.prisma.account.updateMany({
+      where: { id: accountId, syncLockedBy: this.workerId },
+      data: { syncLockedBy: null, syncLockedUntil: null },
+    });
+  }
+}
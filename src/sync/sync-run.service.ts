@@ -0,0 +1,156 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { SyncJobStatus, SyncRun, SyncRunStatus, SyncRunType } from '../../generated/prisma';
+import { LeaderElectionService } from './leader-election.service';
+
+export interface SyncProgress {
+  runId: string;
+  type: SyncRunType;
+  messagesSeen: number;
+  messagesStored: number;
+  messagesSkipped: number;
+  messagesFailed: number;
+  attachmentsUploaded: number;
+}
+
+@Injectable()
+export class SyncRunService {
+  private readonly logger = new Logger(SyncRunService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leaderElection: LeaderElectionService
+  ) {}
+
+  async start(runId: string): Promise<SyncProgress> {
+    const run = await this.prisma.syncRun.findUniqueOrThrow({ where: { id: runId } });
+
+    await this.prisma.syncRun.update({
+      where: { id: runId },
+      data: {
+        status: SyncRunStatus.running,
+        startedAt: run.startedAt ?? new Date(),
+      },
+    });
+
+    return {
+      runId,
+      type: run.type,
+      messagesSeen: run.messagesSeen,
+      messagesStored: run.messagesStored,
+      messagesSkipped: run.messagesSkipped,
+      messagesFailed: run.messagesFailed,
+      attachmentsUploaded: run.attachmentsUploaded,
+    };
+  }
+
+  async saveProgress(progress: SyncProgress): Promise<void> {
+    const { runId, ...counters } = progress;
+
+    try {
+      await this.prisma.syncRun.update({
+        where: { id: runId },
+        data: counters,
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to save progress for sync run ${runId}: ${error}`);
+    }
+  }
+
+  async complete(progress: SyncProgress): Promise<void> {
+    const { runId, ...counters } = progress;
+
+    await this.prisma.syncRun.update({
+      where: { id: runId },
+      data: {
+        ...counters,
+        status: SyncRunStatus.completed,
+        finishedAt: new Date(),
+        lastError: null,
+      },
+    });
+  }
+
+  async recordFailure(progress: SyncProgress, error: unknown, willRetry: boolean): Promise<void> {
+    const { runId, ...counters } = progress;
+
+    await this.prisma.syncRun.update({
+      where: { id: runId },
+      data: {
+        ...counters,
+        status: willRetry ? SyncRunStatus.queued : SyncRunStatus.failed,
+        finishedAt: willRetry ? null : new Date(),
+        lastError: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+
+  async getRun(id: string): Promise<SyncRun & { account: { email: string } }> {
+    const run = await this.prisma.syncRun.findUnique({
+      where: { id },
+      include: { account: { select: { email: true } } },
+    });
+
+    if (!run) {
+      throw new NotFoundException(`Sync run ${id} not found`);
+    }
+
+    return run;
+  }
+
+  async getStatus() {
+    const accounts = await this.prisma.account.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: {
+        token: { select: { id: true } },
+        syncRuns: {
+          orderBy: { createdAt: 'desc' },
+          take: 5,
+        },
+      },
+    });
+
+    return accounts.map((account) => ({
+      accountId: account.id,
+      email: account.email,
+      connected: account.token !== null,
+      historyId: account.historyId,
+      watchExpiration: account.watchExpiration
+        ? new Date(Number(account.watchExpiration)).toISOString()
+        : null,
+      resyncInProgress: account.resyncHistoryId !== null,
+      resyncStartedAt: account.resyncStartedAt,
+      syncLockedBy: account.syncLockedBy,
+      activeRuns: account.syncRuns.filter(
+        (run) => run.status === SyncRunStatus.queued || run.status === SyncRunStatus.running
+      ),
+      lastCompletedRun:
+        account.syncRuns.find((run) => run.status === SyncRunStatus.completed) ?? null,
+      recentRuns: account.syncRuns,
+    }));
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async pruneHistory(): Promise<void> {
+    await this.leaderElection.runExclusive('sync-history-pruning', 2 * 60 * 60 * 1000, async () => {
+      const retentionDays = Number(process.env.SYNC_RUN_RETENTION_DAYS) || 7;
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+      const jobs = await this.prisma.syncJob.deleteMany({
+        where: {
+          status: { in: [SyncJobStatus.completed, SyncJobStatus.dead] },
+          updatedAt: { lt: cutoff },
+        },
+      });
+      const runs = await this.prisma.syncRun.deleteMany({
+        where: {
+          status: { in: [SyncRunStatus.completed, SyncRunStatus.failed] },
+          finishedAt: { lt: cutoff },
+        },
+      });
+
+      this.logger.log(`Pruned ${jobs.count} sync job(s) and ${runs.count} sync run(s) older than ${retentionDays} days`);
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { Controller, Get, Param, ParseUUIDPipe, Post, Query } from '@nestjs/common';
+import { SyncQueueService } from './sync-queue.service';
+import { LeaderElectionService } from './leader-election.service';
+import { SyncRunService } from './sync-run.service';
+import { ListJobsQueryDto } from './dto/list-jobs-query.dto';
+
+@Controller('sync')
+export class SyncController {
+  constructor(
+    private readonly syncQueue: SyncQueueService,
+    private readonly leaderElection: LeaderElectionService,
+    private readonly syncRuns: SyncRunService
+  ) {}
+
+  @Get('status')
+  async getStatus() {
+    const accounts = await this.syncRuns.getStatus();
+    return { accounts };
+  }
+
+  @Get('runs/:id')
+  async getRun(@Param('id', ParseUUIDPipe) id: string) {
+    const run = await this.syncRuns.getRun(id);
+    return { run };
+  }
+
+  @Get('jobs')
+  async getJobs(@Query() { status, limit = 50 }: ListJobsQueryDto) {
+    const jobs = await this.syncQueue.listJobs(status, limit);
+
+    return { jobs };
+  }
+
+  @Post('jobs/:id/retry')
+  async retryJob(@Param('id', ParseUUIDPipe) id: string) {
+    const job = await this.syncQueue.retryDeadJob(id);
+    return { job };
+  }
+
+  @Get('leases')
+  async getLeases() {
+    const leases = await this.leaderElection.getLeases();
+    return { instanceId: this.leaderElection.instanceId, leases };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SyncQueueService } from './sync-queue.service';
+import { LeaderElectionService } from './leader-election.service';
+import { SyncRunService } from './sync-run.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [SyncQueueService, LeaderElectionService, SyncRunService],
+  exports: [SyncQueueService, LeaderElectionService, SyncRunService],
+})
+export class SyncModule {}
@@ -0,0 +1,106 @@
+import { gmail_v1 } from 'googleapis';
+import { getPartFilename, parseHeaderValue } from '../../src/mime/mime-part';
+
+const HEADER_BODY_SEPARATOR = /\r?\n\r?\n/;
+
+const decodeQuotedPrintable = (body: string): Buffer => {
+  const unfolded = body.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < unfolded.length; i++) {
+    if (unfolded[i] === '=' && /^[0-9a-fA-F]{2}$/.test(unfolded.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(unfolded.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(unfolded.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+const decodeTransferEncoding = (body: string, encoding: string): Buffer => {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+};
+
+const parseHeaders = (block: string): gmail_v1.Schema$MessagePartHeader[] =>
+  block
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)
+    .filter((line) => line.includes(':'))
+    .map((line) => {
+      const index = line.indexOf(':');
+      return {
+        name: line.slice(0, index).trim(),
+        // Headers are read as latin1 to keep bytes intact; raw 8-bit headers are almost always UTF-8
+        value: Buffer.from(line.slice(index + 1).trim(), 'latin1').toString('utf8'),
+      };
+    });
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) {
+      break;
+    }
+    if (trimmed === delimiter) {
+      if (current) {
+        parts.push(current.join('\r\n'));
+      }
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  if (current) {
+    parts.push(current.join('\r\n'));
+  }
+
+  return parts;
+};
+
+const parsePart = (raw: string, partId: string): gmail_v1.Schema$MessagePart => {
+  const match = HEADER_BODY_SEPARATOR.exec(raw);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : '';
+  const headers = parseHeaders(headerBlock);
+
+  const getHeader = (name: string): string =>
+    headers.find((header) => header.name?.toLowerCase() === name.toLowerCase())?.value || '';
+
+  const contentType = parseHeaderValue(getHeader('Content-Type') || 'text/plain');
+  const part: gmail_v1.Schema$MessagePart = {
+    partId,
+    mimeType: contentType.value,
+    headers,
+    body: { size: 0 },
+  };
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    part.parts = splitMultipart(body, contentType.params.boundary).map((child, index) =>
+      parsePart(child, partId ? `${partId}.${index}` : `${index}`)
+    );
+  } else {
+    const bytes = decodeTransferEncoding(body, getHeader('Content-Transfer-Encoding'));
+    part.body = { size: bytes.length, data: bytes.toString('base64url') };
+  }
+
+  part.filename = getPartFilename(part);
+  return part;
+};
+
+export function parseRawMessage(raw: Buffer): gmail_v1.Schema$MessagePart {
+  return parsePart(raw.toString('latin1'), '');
+}